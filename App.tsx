@@ -1,12 +1,50 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Track } from './types';
-import { getAllTracksFromDB, addTrackToDB, deleteTrackFromDB, updateTrackInDB } from './services/db';
+import { Track, Playlist, PlaybackSettings, CachedLyrics, SmartPlaylistDefinition, DEFAULT_PLAYBACK_SETTINGS } from './types';
+import {
+  getAllTracksFromDB, addTrackToDB, deleteTrackFromDB, updateTrackInDB,
+  getAllPlaylistsFromDB, addPlaylistToDB, updatePlaylistInDB, deletePlaylistFromDB,
+  getSettingFromDB, putSettingInDB, getWaveformFromDB, putWaveformInDB, deleteWaveformFromDB,
+  addPlayEventToDB, updatePlayEventInDB, getTracksByContentHashFromDB, reassignPlayEventsInDB
+} from './services/db';
+import { readAudioInfo, readTrackMetadata } from './services/metadata';
+import { EngineTrack, PlaybackEngine, PlaybackEngineEvents, createPlaybackEngine } from './services/playbackEngine';
+import { analyzeLoudness, computeAlbumGains, getNormalizationGain, loudnessToGain, needsLoudnessAnalysis } from './services/loudness';
+import { loadPreference, savePreference } from './services/preferences';
+import { RestoreMode } from './services/backup';
+import { computeWaveform } from './services/waveform';
+import { checkImportSpace, requestPersistentStorage } from './services/storage';
+import { ImportFile, ImportItem, collectDroppedFiles, filesFromList, groupImportFiles } from './services/folderImport';
+import { DuplicateChoice, hashTrackFile, mergeDuplicateInto } from './services/duplicates';
+import { ImportStatus, runImportQueue, validateAudioFile } from './services/importPipeline';
+import { formatFileSize } from './services/format';
+import { ProcessedCover, createCoverThumbnail, processCoverArt } from './services/artwork';
+import { createListeningTracker } from './services/history';
+import { LyricsProviderSettings, DEFAULT_LYRICS_PROVIDER_SETTINGS } from './services/lyricsProviders';
+import { KeyBindings, ShortcutAction, DEFAULT_KEY_BINDINGS, findShortcutAction, isTypingTarget, keyFromEvent, rebindKey } from './services/shortcuts';
+import {
+  MediaSessionActions, createArtwork, registerMediaSessionActions,
+  setMediaSessionMetadata, setMediaSessionPlaybackState, setMediaSessionPosition
+} from './services/mediaSession';
+import { EqualizerPreset, EqualizerSettings, DEFAULT_EQUALIZER_SETTINGS, BUILT_IN_PRESETS, resolveEqualizerCurve } from './services/equalizer';
+import {
+  PlayQueue, RepeatMode, createQueue, startQueue, advanceQueue, peekNext, rewindQueue, setShuffle, setRepeat,
+  playNext, addToQueue, removeFromUpNext, moveInUpNext, removeTrackFromQueue
+} from './services/queue';
 import Library from './components/Library';
 import Player from './components/Player';
 import FileUpload from './components/FileUpload';
 import UploadOverlay from './components/UploadOverlay';
-import TrackEditorModal from './components/TrackEditorModal';
+import TrackEditorModal, { TrackEdits } from './components/TrackEditorModal';
+import BulkEditModal, { BulkTrackChanges } from './components/BulkEditModal';
 import NowPlayingView from './components/NowPlayingView';
+import SettingsModal from './components/SettingsModal';
+import KeyboardShortcutsHelp from './components/KeyboardShortcutsHelp';
+import StatsModal from './components/StatsModal';
+import SmartPlaylistEditor from './components/SmartPlaylistEditor';
+import StorageModal from './components/StorageModal';
+import DuplicatesModal from './components/DuplicatesModal';
+import DuplicateImportDialog from './components/DuplicateImportDialog';
+import ImportPanel from './components/ImportPanel';
 
 // FIX: Define BluetoothDevice interface to handle missing Web Bluetooth API types.
 interface BluetoothDevice {
@@ -19,94 +57,666 @@ interface BluetoothDevice {
     addEventListener(type: 'gattserverdisconnected', listener: (this: this, ev: any) => any): void;
 }
 
+const PREVIOUS_RESTARTS_AFTER_SECONDS = 3;
+const SHORTCUT_SEEK_SECONDS = 5;
+const SHORTCUT_VOLUME_STEP = 0.05;
 
 const App: React.FC = () => {
   const [tracks, setTracks] = useState<Track[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  // The playlist shown in the Library (null = all songs).
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<number | null>(null);
+  const [queue, setQueue] = useState<PlayQueue>(createQueue);
   const [currentTrackId, setCurrentTrackId] = useState<number | null>(null);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [currentTime, setCurrentTime] = useState<number>(0);
   const [duration, setDuration] = useState<number>(0);
   const [volume, setVolume] = useState<number>(0.75);
-  const [isUploading, setIsUploading] = useState<boolean>(false);
+  // The running import's progress, or the report of the last one until it's dismissed.
+  const [importStatus, setImportStatus] = useState<ImportStatus<ImportItem> | null>(null);
+  const importControllerRef = useRef<AbortController | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
 
   // New state for modals
   const [editingTrackId, setEditingTrackId] = useState<number | null>(null);
+  const [isTrackEditorDirty, setIsTrackEditorDirty] = useState(false);
+  const [bulkEditTrackIds, setBulkEditTrackIds] = useState<number[] | null>(null);
   const [isNowPlayingVisible, setIsNowPlayingVisible] = useState<boolean>(false);
+  const [isSettingsVisible, setIsSettingsVisible] = useState<boolean>(false);
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(() => loadPreference('playbackSettings', DEFAULT_PLAYBACK_SETTINGS));
+  const [equalizerSettings, setEqualizerSettings] = useState<EqualizerSettings>(DEFAULT_EQUALIZER_SETTINGS);
+  const [customEqPresets, setCustomEqPresets] = useState<EqualizerPreset[]>([]);
+  const [analyzingTrackId, setAnalyzingTrackId] = useState<number | null>(null);
+  const [isShortcutsHelpVisible, setIsShortcutsHelpVisible] = useState<boolean>(false);
+  const [isStatsVisible, setIsStatsVisible] = useState<boolean>(false);
+  const [isStorageVisible, setIsStorageVisible] = useState<boolean>(false);
+  const [isDuplicatesVisible, setIsDuplicatesVisible] = useState<boolean>(false);
+  // Set while an import waits for the user to say what to do with files the library already has.
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{ name: string; resolve: (choice: DuplicateChoice | null) => void } | null>(null);
+  // The smart playlist whose rules are open for editing; null while creating a new one.
+  const [smartPlaylistEditor, setSmartPlaylistEditor] = useState<{ playlistId: number | null } | null>(null);
+  const [lyricsProviderSettings, setLyricsProviderSettings] = useState<LyricsProviderSettings>(() => loadPreference('lyricsProviders', DEFAULT_LYRICS_PROVIDER_SETTINGS));
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(() => loadPreference('keyBindings', DEFAULT_KEY_BINDINGS));
 
   // New state for Bluetooth
   const [isBluetoothSupported, setIsBluetoothSupported] = useState(false);
   const [bluetoothDevice, setBluetoothDevice] = useState<BluetoothDevice | null>(null);
 
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const [currentTrackUrl, setCurrentTrackUrl] = useState<string>('');
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  // The engine is created once; its events go through this ref to reach the latest handlers.
+  const engineEventsRef = useRef<PlaybackEngineEvents | null>(null);
+  // Same for the OS media controls, which are registered once.
+  const mediaSessionActionsRef = useRef<MediaSessionActions | null>(null);
+  // ...and for the global keyboard listener.
+  const keyDownHandlerRef = useRef<((e: KeyboardEvent) => void) | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const volumeBeforeMuteRef = useRef(volume);
+  // Background loudness analysis works from the latest library, not the one it started with.
+  const tracksRef = useRef<Track[]>(tracks);
+  tracksRef.current = tracks;
+  const failedAnalysisRef = useRef(new Set<number>());
+  const failedWaveformRef = useRef(new Set<number>());
 
+  // Bumps a track's play statistics from the latest library.
+  const updateTrackStats = useCallback((trackId: number, changes: (track: Track) => Partial<Track>) => {
+    const track = tracksRef.current.find(t => t.id === trackId);
+    if (!track) return;
+    const updatedTrack = { ...track, ...changes(track) };
+    setTracks(prev => prev.map(t => t.id === trackId ? updatedTrack : t));
+    updateTrackInDB(updatedTrack).catch(e => console.error("Failed to save play statistics:", e));
+  }, []);
+
+  // Turns playback into listening history. Listens start when a track loads and end when
+  // another one takes over; see services/history.ts for what counts as a play or a skip.
+  const [listeningTracker] = useState(() => createListeningTracker({
+    onPlay: async (trackId, playedAt, listenedSeconds) => {
+      const event = { trackId, playedAt, listenedSeconds, kind: 'play' as const };
+      const id = await addPlayEventToDB(event);
+      updateTrackStats(trackId, track => ({ playCount: (track.playCount ?? 0) + 1, lastPlayed: Date.now() }));
+      return { ...event, id };
+    },
+    onPlayFinished: (event, listenedSeconds) => {
+      updatePlayEventInDB({ ...event, listenedSeconds }).catch(e => console.error("Failed to update listening history:", e));
+    },
+    onSkip: (trackId, playedAt, listenedSeconds) => {
+      addPlayEventToDB({ trackId, playedAt, listenedSeconds, kind: 'skip' })
+        .catch(e => console.error("Failed to record skip:", e));
+      updateTrackStats(trackId, track => ({ skipCount: (track.skipCount ?? 0) + 1 }));
+    },
+  }));
+
+  // Closing the tab ends the current listen where it is.
   useEffect(() => {
-    // Check for Web Bluetooth and Audio Output API support
-    if ('bluetooth' in navigator && typeof (HTMLAudioElement.prototype as any).setSinkId !== 'undefined') {
-        setIsBluetoothSupported(true);
-    }
+    const handlePageHide = () => listeningTracker.finish(true);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [listeningTracker]);
 
-    const loadTracks = async () => {
-      const dbTracks = await getAllTracksFromDB();
-      setTracks(dbTracks);
+  useEffect(() => {
+    const engine = createPlaybackEngine({
+      onTimeUpdate: (time) => engineEventsRef.current?.onTimeUpdate(time),
+      onDurationChange: (duration, trackId) => engineEventsRef.current?.onDurationChange(duration, trackId),
+      onAdvance: (trackId) => engineEventsRef.current?.onAdvance(trackId),
+      onEnded: () => engineEventsRef.current?.onEnded(),
+    });
+    engineRef.current = engine;
+    return () => {
+      engine.destroy();
+      engineRef.current = null;
     };
-    loadTracks();
   }, []);
 
+  // Tracks imported before we probed stream info get it filled in, one at a time in the background.
+  const backfillAudioInfo = useCallback(async (libraryTracks: Track[]) => {
+    for (const track of libraryTracks.filter(t => t.codec === undefined && !t.streamInfoProbed)) {
+      const info = await readAudioInfo(track.file);
+      const latest = tracksRef.current.find(t => t.id === track.id);
+      if (!latest) continue;
+      // Saved even when nothing could be read, so the file isn't probed again next time.
+      const updatedTrack = { ...latest, ...info, streamInfoProbed: true };
+      try {
+        await updateTrackInDB(updatedTrack);
+        setTracks(prev => prev.map(t => t.id === track.id ? updatedTrack : t));
+      } catch (error) {
+        console.error(`Failed to save stream info for "${track.name}":`, error);
+      }
+    }
+  }, []);
+
+  // Covers saved before thumbnails existed get one the same way.
+  const backfillCoverThumbnails = useCallback(async (libraryTracks: Track[]) => {
+    for (const track of libraryTracks.filter(t => t.coverArt && !t.coverThumbnail)) {
+      let coverThumbnail: Blob;
+      try {
+        coverThumbnail = await createCoverThumbnail(track.coverArt!);
+      } catch (error) {
+        console.warn(`Failed to make a cover thumbnail for "${track.name}":`, error);
+        continue;
+      }
+      const latest = tracksRef.current.find(t => t.id === track.id);
+      if (!latest || latest.coverArt !== track.coverArt) continue;
+      const updatedTrack = { ...latest, coverThumbnail };
+      try {
+        await updateTrackInDB(updatedTrack);
+        setTracks(prev => prev.map(t => t.id === track.id ? updatedTrack : t));
+      } catch (error) {
+        console.error(`Failed to save the cover thumbnail for "${track.name}":`, error);
+      }
+    }
+  }, []);
+
+  const loadLibrary = useCallback(async () => {
+    try {
+      const [dbTracks, dbPlaylists] = await Promise.all([getAllTracksFromDB(), getAllPlaylistsFromDB()]);
+      setTracks(dbTracks);
+      setPlaylists(dbPlaylists);
+      backfillAudioInfo(dbTracks).finally(() => backfillCoverThumbnails(dbTracks));
+      const [savedEqualizer, savedEqPresets] = await Promise.all([
+        getSettingFromDB<EqualizerSettings>('equalizer'),
+        getSettingFromDB<EqualizerPreset[]>('equalizerPresets'),
+      ]);
+      if (savedEqualizer) setEqualizerSettings({ ...DEFAULT_EQUALIZER_SETTINGS, ...savedEqualizer });
+      if (savedEqPresets) setCustomEqPresets(savedEqPresets);
+    } catch (error) {
+      console.error("Failed to load library:", error);
+      alert(error);
+    }
+  }, [backfillAudioInfo, backfillCoverThumbnails]);
+
   useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.volume = volume;
+    // Check for Web Bluetooth and Audio Output API support. Audio is routed through Web Audio,
+    // so the output device is picked on the AudioContext rather than on a media element.
+    if ('bluetooth' in navigator && typeof (AudioContext.prototype as any).setSinkId !== 'undefined') {
+        setIsBluetoothSupported(true);
     }
+    loadLibrary();
+  }, [loadLibrary]);
+
+  useEffect(() => {
+    return registerMediaSessionActions({
+      play: () => mediaSessionActionsRef.current?.play(),
+      pause: () => mediaSessionActionsRef.current?.pause(),
+      next: () => mediaSessionActionsRef.current?.next(),
+      previous: () => mediaSessionActionsRef.current?.previous(),
+      seekTo: (time) => mediaSessionActionsRef.current?.seekTo(time),
+      getCurrentTime: () => mediaSessionActionsRef.current?.getCurrentTime() ?? 0,
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyDownHandlerRef.current?.(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    engineRef.current?.setVolume(volume);
   }, [volume]);
 
   useEffect(() => {
-    if (audioRef.current && currentTrackUrl) {
-        audioRef.current.src = currentTrackUrl;
-        if (isPlaying) {
-            audioRef.current.play().catch(e => console.error("Error playing audio:", e));
+    engineRef.current?.setCrossfade(playbackSettings.crossfadeSeconds);
+  }, [playbackSettings.crossfadeSeconds]);
+
+  const currentTrackEqPresetId = tracks.find(t => t.id === currentTrackId)?.eqPresetId;
+  useEffect(() => {
+    const curve = resolveEqualizerCurve(equalizerSettings, customEqPresets, currentTrackEqPresetId ?? null);
+    engineRef.current?.setEqualizer(curve);
+  }, [equalizerSettings, customEqPresets, currentTrackEqPresetId]);
+
+  const toEngineTrack = useCallback((track: Track): EngineTrack => ({
+    id: track.id,
+    file: track.file,
+    gainDb: getNormalizationGain(track, playbackSettings.normalization),
+  }), [playbackSettings.normalization]);
+
+  // Keep whatever plays after the current track loaded on the engine's standby deck.
+  useEffect(() => {
+    const nextId = peekNext(queue, currentTrackId);
+    const nextTrack = nextId === null ? null : tracks.find(t => t.id === nextId) || null;
+    engineRef.current?.preload(nextTrack && toEngineTrack(nextTrack));
+  }, [queue, currentTrackId, tracks, toEngineTrack]);
+
+  // Follow normalization changes (mode switch, analysis finishing) on the playing track.
+  const playingTrack = tracks.find(t => t.id === currentTrackId) || null;
+  const currentTrackGain = playingTrack ? getNormalizationGain(playingTrack, playbackSettings.normalization) : 0;
+  useEffect(() => {
+    if (currentTrackId !== null) engineRef.current?.setTrackGain(currentTrackId, currentTrackGain);
+  }, [currentTrackId, currentTrackGain]);
+
+  // Load the playing track's waveform, computing and storing it the first time.
+  const [waveform, setWaveform] = useState<{ trackId: number; peaks: Uint8Array } | null>(null);
+  useEffect(() => {
+    const track = tracksRef.current.find(t => t.id === currentTrackId);
+    if (!track) return;
+    let isCancelled = false;
+    (async () => {
+      let peaks = await getWaveformFromDB(track.id);
+      if (!peaks) {
+        // Skipped past already, or failed before; don't decode a file for nothing.
+        if (isCancelled || failedWaveformRef.current.has(track.id)) return;
+        try {
+          peaks = await computeWaveform(track.file, track.duration);
+        } catch (error) {
+          failedWaveformRef.current.add(track.id);
+          throw error;
         }
+        await putWaveformInDB(track.id, peaks);
+      }
+      if (!isCancelled) setWaveform({ trackId: track.id, peaks });
+    })().catch(e => console.warn(`Could not compute a waveform for "${track.name}":`, e));
+    return () => { isCancelled = true; };
+  }, [currentTrackId]);
+  const currentWaveform = waveform && waveform.trackId === currentTrackId ? waveform.peaks : null;
+
+  // Publish the current track to the OS (lock screen, notification, headset controls).
+  useEffect(() => {
+    if (!playingTrack) {
+      setMediaSessionMetadata(null);
+      return;
     }
-  }, [currentTrackUrl, isPlaying]); // isPlaying added to dependency array
+    setMediaSessionMetadata(playingTrack);
+    if (!playingTrack.coverArt) return;
+
+    let isCancelled = false;
+    let artwork: MediaImage[] = [];
+    createArtwork(playingTrack.coverArt)
+      .then(images => {
+        artwork = images;
+        if (isCancelled) images.forEach(image => URL.revokeObjectURL(image.src));
+        else setMediaSessionMetadata(playingTrack, images);
+      })
+      .catch(e => console.warn("Failed to prepare media session artwork:", e));
+    return () => {
+      isCancelled = true;
+      artwork.forEach(image => URL.revokeObjectURL(image.src));
+    };
+    // Only the fields that are shown; play counts and the like shouldn't redraw the artwork.
+  }, [playingTrack?.id, playingTrack?.name, playingTrack?.artist, playingTrack?.album, playingTrack?.coverArt]);
 
   useEffect(() => {
-      return () => {
-          if (currentTrackUrl) {
-              URL.revokeObjectURL(currentTrackUrl);
-          }
+    setMediaSessionPlaybackState(currentTrackId === null ? 'none' : isPlaying ? 'playing' : 'paused');
+  }, [isPlaying, currentTrackId]);
+
+  // The OS extrapolates the position while playing, so it only needs telling when that breaks
+  // down: a new track, a duration update, or play/pause. Seeks update it in handleSeek.
+  useEffect(() => {
+    setMediaSessionPosition(engineRef.current?.getCurrentTime() ?? 0, duration);
+  }, [duration, isPlaying, currentTrackId]);
+
+  // Measure loudness one track at a time in the background. Finishing a track re-runs this
+  // effect, which picks up the next one still waiting.
+  useEffect(() => {
+    if (analyzingTrackId !== null) return;
+    const pending = tracks.find(t => needsLoudnessAnalysis(t) && !failedAnalysisRef.current.has(t.id));
+    if (!pending) return;
+
+    setAnalyzingTrackId(pending.id);
+    const analyze = async () => {
+      try {
+        const { loudness, peak } = await analyzeLoudness(pending.file, pending.duration);
+        const latest = tracksRef.current.find(t => t.id === pending.id);
+        if (!latest) return; // Deleted while we were busy.
+        const analyzed: Track = { ...latest, trackGain: loudnessToGain(loudness), trackPeak: peak, replayGainSource: 'analysis' };
+        const library = tracksRef.current.map(t => t.id === analyzed.id ? analyzed : t);
+        const albumUpdates = computeAlbumGains(library);
+        const changed = new Map<number, Track>([[analyzed.id, analyzed], ...albumUpdates.map(t => [t.id, t] as [number, Track])]);
+        await Promise.all(Array.from(changed.values()).map(updateTrackInDB));
+        setTracks(prev => prev.map(t => changed.get(t.id) ?? t));
+      } catch (error) {
+        console.warn(`Loudness analysis failed for "${pending.name}":`, error);
+        failedAnalysisRef.current.add(pending.id);
+      } finally {
+        setAnalyzingTrackId(null);
+      }
+    };
+    analyze();
+  }, [tracks, analyzingTrackId]);
+
+  // Older tracks only get a content hash when something needs one: here, when their size
+  // matches a file about to be imported.
+  const hashPossibleImportCopies = async (items: ImportItem[]) => {
+    const sizes = new Set(items.map(item => item.file.size));
+    const newlyHashed: Track[] = [];
+    for (const track of tracksRef.current.filter(track => !track.contentHash && sizes.has(track.file.size))) {
+      const contentHash = await hashTrackFile(track.file);
+      if (contentHash) newlyHashed.push({ ...track, contentHash });
+    }
+    if (newlyHashed.length > 0) await handleTracksHashed(newlyHashed);
+  };
+
+  const askDuplicateChoice = (name: string) => new Promise<DuplicateChoice | null>(resolve => {
+    setDuplicatePrompt({ name, resolve: (choice) => {
+      setDuplicatePrompt(null);
+      resolve(choice);
+    } });
+  });
+
+  const runImport = async (items: ImportItem[]) => {
+    if (importControllerRef.current) {
+      alert("Another import is still running. Wait for it to finish or cancel it first.");
+      return;
+    }
+    // Claimed before the first await, so a second drop can't slip in while space is checked.
+    const controller = new AbortController();
+    importControllerRef.current = controller;
+    const importBytes = items.reduce((sum, item) => sum + item.file.size + (item.coverFile?.size ?? 0), 0);
+    const space = await checkImportSpace(importBytes);
+    if (space && !space.fits && !confirm(
+      `These files take up ${formatFileSize(importBytes)}, but only about ${formatFileSize(space.available)} of storage is left. ` +
+      `Some of them will probably fail to import. Import anyway?`
+    )) {
+      importControllerRef.current = null;
+      return;
+    }
+
+    const seenHashes = new Set<string>();
+    // Asked at the first duplicate; the answer holds for the rest of this import.
+    let duplicateChoice: Promise<DuplicateChoice | null> | null = null;
+    let imported = 0;
+    let skipped = 0;
+    // Files already in progress when the duplicate prompt was cancelled; the queue only knows about unstarted ones.
+    const cancelledInProgress: ImportItem[] = [];
+
+    // Each file is stored as soon as it's ready, so whatever fails or is cancelled later
+    // doesn't take the others down with it.
+    const importItem = async (item: ImportItem) => {
+      const { file } = item;
+      await validateAudioFile(file);
+      const contentHash = await hashTrackFile(file);
+      // Undefined for a new file, null for a repeat of one earlier in this import.
+      let existing: Track | null | undefined;
+      if (contentHash && seenHashes.has(contentHash)) {
+        existing = null;
+      } else if (contentHash) {
+        seenHashes.add(contentHash);
+        [existing] = await getTracksByContentHashFromDB(contentHash);
+      }
+      let choice: DuplicateChoice = 'keepBoth';
+      if (existing !== undefined) {
+        duplicateChoice ??= askDuplicateChoice(file.name);
+        const answer = await duplicateChoice;
+        if (!answer) {
+          controller.abort();
+          cancelledInProgress.push(item);
+          return;
+        }
+        choice = answer;
+        if (choice === 'skip' || (choice === 'replace' && !existing)) {
+          skipped++;
+          return;
+        }
+      }
+
+      const [{ title, ...tags }, audioInfo, lyrics] = await Promise.all([
+        readTrackMetadata(file),
+        readAudioInfo(file),
+        item.lyricsFile?.text(),
+      ]);
+      // A picture the browser can't show isn't worth storing, so it's left out rather than failing the song.
+      const cover = tags.coverArt ?? item.coverFile;
+      const processedCover = cover && await processCoverArt(cover).catch(error => {
+        console.warn(`Skipping the cover of "${file.name}":`, error);
+        return undefined;
+      });
+      // Tags win; the folder layout and file name only fill in what they leave out.
+      const trackData: Omit<Track, 'id'> = {
+        ...tags,
+        ...audioInfo,
+        streamInfoProbed: true,
+        name: title || item.fileTitle,
+        artist: tags.artist || item.folderArtist,
+        album: tags.album || item.folderAlbum,
+        trackNumber: tags.trackNumber ?? item.fileTrackNumber,
+        coverArt: processedCover?.coverArt,
+        coverThumbnail: processedCover?.coverThumbnail,
+        lyrics: lyrics?.trim() || undefined,
+        file,
+        contentHash,
+        dateAdded: Date.now(),
+        replayGainSource: tags.trackGain !== undefined ? 'tags' : undefined,
       };
-  }, [currentTrackUrl]);
+      if (existing && choice === 'replace') {
+        // The library's copy keeps its id, history and anything the user attached.
+        const replaced: Track = {
+          ...existing,
+          ...trackData,
+          id: existing.id,
+          dateAdded: existing.dateAdded,
+          lyrics: trackData.lyrics ?? existing.lyrics,
+          coverArt: trackData.coverArt ?? existing.coverArt,
+          coverThumbnail: trackData.coverArt ? trackData.coverThumbnail : existing.coverThumbnail,
+          // Gains and peaks measured on the old audio don't fit the new file; only its own tags count.
+          trackGain: tags.trackGain,
+          trackPeak: tags.trackPeak,
+          albumGain: tags.albumGain,
+          albumPeak: tags.albumPeak,
+        };
+        await updateTrackInDB(replaced);
+        setTracks(prev => prev.map(track => track.id === replaced.id ? replaced : track));
+        // Same id, new audio: the stored peaks are redrawn from the new file on its next play.
+        setWaveform(prev => prev?.trackId === replaced.id ? null : prev);
+        failedAnalysisRef.current.delete(replaced.id);
+        failedWaveformRef.current.delete(replaced.id);
+        await deleteWaveformFromDB(replaced.id).catch(e => console.warn(`Could not clear the old waveform of "${replaced.name}":`, e));
+      } else {
+        const id = await addTrackToDB(trackData);
+        setTracks(prev => [...prev, { ...trackData, id }]);
+      }
+      imported++;
+    };
 
-  const handleFilesSelected = async (files: FileList) => {
-    setIsUploading(true);
+    setImportStatus({ progress: { done: 0, total: items.length, current: [] }, isRunning: true, imported: 0, skipped: 0, failures: [], cancelled: [] });
     try {
-      const newTracksPromises = Array.from(files).map(async (file) => {
-        const trackData = { name: file.name.replace(/\.[^/.]+$/, ""), file };
-        const id = await addTrackToDB(trackData);
-        return { ...trackData, id, file };
+      await hashPossibleImportCopies(items);
+      const { failures, cancelled: unstarted } = await runImportQueue(items, importItem, {
+        nameOf: item => item.file.name,
+        signal: controller.signal,
+        onProgress: (progress) => setImportStatus(prev => prev && { ...prev, progress, imported, skipped }),
       });
-      const newTracks = await Promise.all(newTracksPromises);
-      setTracks(prevTracks => [...prevTracks, ...newTracks]);
+      const cancelled = [...cancelledInProgress, ...unstarted];
+      failures.forEach(({ item, reason }) => console.warn(`Couldn't import "${item.file.name}": ${reason}`));
+      // Now that there's something worth keeping, ask the browser not to evict it.
+      if (imported > 0) requestPersistentStorage();
+      // A clean run needs no report: the new songs are right there in the library.
+      setImportStatus(failures.length === 0 && cancelled.length === 0
+        ? null
+        : (prev => prev && { ...prev, isRunning: false, imported, skipped, failures, cancelled }));
     } catch (error) {
       console.error("Failed to add tracks:", error);
+      setImportStatus(null);
     } finally {
-      setIsUploading(false);
+      importControllerRef.current = null;
+    }
+  };
+
+  const importFiles = (files: ImportFile[]) => {
+    const items = groupImportFiles(files);
+    if (items.length === 0) {
+      if (files.length > 0) alert("No audio files were found there.");
+      return;
     }
+    runImport(items);
   };
+
+  const handleFilesSelected = (files: FileList) => importFiles(filesFromList(files));
   
+  const handleRemoveTrackMedia = async (ids: number[], field: 'video' | 'coverArt') => {
+    const updated = tracks
+      .filter(track => ids.includes(track.id) && track[field])
+      .map(track => field === 'coverArt' ? { ...track, coverArt: undefined, coverThumbnail: undefined } : { ...track, video: undefined });
+    const results = await Promise.allSettled(updated.map(updateTrackInDB));
+    // Only what was actually written shows as removed; the rest is still stored.
+    const saved = updated.filter((_, i) => results[i].status === 'fulfilled');
+    if (saved.length < updated.length) {
+      console.error("Failed to remove media:", results.find(result => result.status === 'rejected'));
+      alert("Couldn't remove everything. Please try again.");
+    }
+    const savedById = new Map(saved.map(track => [track.id, track]));
+    setTracks(prev => prev.map(track => savedById.get(track.id) ?? track));
+  };
+
+  // Writes the same changes to several songs at once. The songs that were saved show their
+  // changes even when others fail, and the first failure is rethrown for the caller to report.
+  const saveTrackChanges = async (ids: number[], changes: Partial<Track>) => {
+    const updated = tracks.filter(track => ids.includes(track.id)).map(track => ({ ...track, ...changes }));
+    const results = await Promise.allSettled(updated.map(updateTrackInDB));
+    const savedById = new Map(updated.filter((_, i) => results[i].status === 'fulfilled').map(track => [track.id, track]));
+    setTracks(prev => prev.map(track => savedById.get(track.id) ?? track));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) throw failure.reason;
+  };
+
+  const handleSetCoverArt = async (ids: number[], file: File) => {
+    let cover: ProcessedCover;
+    try {
+      cover = await processCoverArt(file);
+    } catch (error) {
+      console.error("Failed to process cover art:", error);
+      alert(`Couldn't use "${file.name}" as cover art. Try a JPEG or PNG image.`);
+      return;
+    }
+    try {
+      await saveTrackChanges(ids, cover);
+    } catch (error) {
+      console.error("Failed to set cover art:", error);
+      alert("Couldn't set the cover art. Please try again.");
+    }
+  };
+
+  const handleBulkEditSave = async (changes: BulkTrackChanges) => {
+    const ids = bulkEditTrackIds ?? [];
+    setBulkEditTrackIds(null);
+    try {
+      await saveTrackChanges(ids, changes);
+    } catch (error) {
+      console.error("Failed to edit songs:", error);
+      alert("Couldn't save the changes to every song. Please try again.");
+    }
+  };
+
+  const handleTracksHashed = async (hashed: Track[]) => {
+    await Promise.all(hashed.map(updateTrackInDB));
+    const hashedById = new Map(hashed.map(track => [track.id, track.contentHash]));
+    setTracks(prev => prev.map(track => hashedById.has(track.id) ? { ...track, contentHash: hashedById.get(track.id) } : track));
+  };
+
+  // Keeps one copy of a duplicated song. Its history, play counts and playlist spots are
+  // taken over from the other copies before they're deleted.
+  const handleMergeDuplicates = async (keepId: number, removeIds: number[]) => {
+    const keep = tracks.find(t => t.id === keepId);
+    if (!keep) return;
+    const merged = mergeDuplicateInto(keep, tracks.filter(t => removeIds.includes(t.id)));
+    await updateTrackInDB(merged);
+    setTracks(prev => prev.map(t => t.id === keepId ? merged : t));
+    await reassignPlayEventsInDB(removeIds, keepId);
+    for (const playlist of playlists) {
+      if (playlist.smart || !playlist.trackIds.some(id => removeIds.includes(id))) continue;
+      const trackIds = playlist.trackIds.map(id => removeIds.includes(id) ? keepId : id);
+      await savePlaylist({ ...playlist, trackIds: trackIds.filter((id, i) => trackIds.indexOf(id) === i) });
+    }
+    for (const id of removeIds) {
+      await handleTrackDelete(id);
+    }
+  };
+
   const handleTrackDelete = async (id: number) => {
     if (id === currentTrackId) {
+        listeningTracker.finish(true);
         setIsPlaying(false);
         setCurrentTrackId(null);
-        if (audioRef.current) audioRef.current.src = '';
-        if (currentTrackUrl) {
-            URL.revokeObjectURL(currentTrackUrl);
-            setCurrentTrackUrl('');
-        }
+        engineRef.current?.stop();
         setIsNowPlayingVisible(false);
     }
     await deleteTrackFromDB(id);
-    setTracks(tracks.filter(track => track.id !== id));
+    setTracks(prev => prev.filter(track => track.id !== id));
+    setQueue(prev => removeTrackFromQueue(prev, id));
+    setPlaylists(prev => prev.map(p => p.trackIds.includes(id) ? { ...p, trackIds: p.trackIds.filter(trackId => trackId !== id) } : p));
+  };
+
+  const handleTracksDelete = async (ids: number[]) => {
+    try {
+      for (const id of ids) {
+        await handleTrackDelete(id);
+      }
+    } catch (error) {
+      console.error("Failed to delete songs:", error);
+      alert("Couldn't delete every song. Please try again.");
+    }
+  };
+
+  // Playlist Handlers
+  const savePlaylist = async (playlist: Playlist) => {
+    setPlaylists(prev => prev.map(p => p.id === playlist.id ? playlist : p));
+    try {
+      await updatePlaylistInDB(playlist);
+    } catch (error) {
+      console.error("Failed to save playlist:", error);
+    }
+  };
+
+  const handleCreatePlaylist = async (name: string) => {
+    try {
+      const playlistData = { name, trackIds: [], dateCreated: Date.now() };
+      const id = await addPlaylistToDB(playlistData);
+      setPlaylists(prev => [...prev, { ...playlistData, id }]);
+      setSelectedPlaylistId(id);
+    } catch (error) {
+      console.error("Failed to create playlist:", error);
+      alert("Couldn't create the playlist.");
+    }
+  };
+
+  const handleSaveSmartPlaylist = async (name: string, smart: SmartPlaylistDefinition) => {
+    const playlistId = smartPlaylistEditor?.playlistId ?? null;
+    setSmartPlaylistEditor(null);
+    if (playlistId !== null) {
+      const playlist = playlists.find(p => p.id === playlistId);
+      if (playlist) savePlaylist({ ...playlist, name, smart });
+      return;
+    }
+    try {
+      const playlistData = { name, trackIds: [], dateCreated: Date.now(), smart };
+      const id = await addPlaylistToDB(playlistData);
+      setPlaylists(prev => [...prev, { ...playlistData, id }]);
+      setSelectedPlaylistId(id);
+    } catch (error) {
+      console.error("Failed to create smart playlist:", error);
+      alert("Couldn't create the smart playlist.");
+    }
+  };
+
+  const handleRenamePlaylist = (id: number, name: string) => {
+    const playlist = playlists.find(p => p.id === id);
+    if (playlist) savePlaylist({ ...playlist, name });
+  };
+
+  const handleDeletePlaylist = async (id: number) => {
+    try {
+      await deletePlaylistFromDB(id);
+      setPlaylists(prev => prev.filter(p => p.id !== id));
+      if (selectedPlaylistId === id) setSelectedPlaylistId(null);
+    } catch (error) {
+      console.error("Failed to delete playlist:", error);
+      alert("Couldn't delete the playlist.");
+    }
+  };
+
+  const handleReorderPlaylist = (id: number, trackIds: number[]) => {
+    const playlist = playlists.find(p => p.id === id);
+    if (playlist) savePlaylist({ ...playlist, trackIds });
+  };
+
+  const handleAddToPlaylist = (playlistId: number, trackIds: number[]) => {
+    const playlist = playlists.find(p => p.id === playlistId);
+    const newIds = trackIds.filter(id => !playlist?.trackIds.includes(id));
+    if (playlist && !playlist.smart && newIds.length > 0) {
+      savePlaylist({ ...playlist, trackIds: [...playlist.trackIds, ...newIds] });
+    }
+  };
+
+  const handleRemoveFromPlaylist = (playlistId: number, trackId: number) => {
+    const playlist = playlists.find(p => p.id === playlistId);
+    if (playlist) savePlaylist({ ...playlist, trackIds: playlist.trackIds.filter(id => id !== trackId) });
   };
 
   const handlePlayPause = useCallback(() => {
@@ -117,56 +727,310 @@ const App: React.FC = () => {
   const handleTrackSelect = useCallback((id: number) => {
       const track = tracks.find(t => t.id === id);
       if (track && track.id !== currentTrackId) {
-        if (currentTrackUrl) {
-            URL.revokeObjectURL(currentTrackUrl);
-        }
+        listeningTracker.start(id);
+        engineRef.current?.load(toEngineTrack(track));
         setCurrentTrackId(id);
-        const url = URL.createObjectURL(track.file);
-        setCurrentTrackUrl(url);
+        setCurrentTime(0);
         setIsPlaying(true);
       } else if (track && track.id === currentTrackId) {
         handlePlayPause();
       }
-  }, [tracks, currentTrackId, currentTrackUrl, handlePlayPause]);
+  }, [tracks, currentTrackId, handlePlayPause, toEngineTrack, listeningTracker]);
   
   useEffect(() => {
-    if (audioRef.current) {
+    const engine = engineRef.current;
+    if (engine) {
         if (isPlaying && currentTrackId) {
-            audioRef.current.play().catch(e => console.error("Playback failed", e));
+            engine.play().catch(e => console.error("Playback failed", e));
         } else {
-            audioRef.current.pause();
+            engine.pause();
         }
     }
   }, [isPlaying, currentTrackId]);
 
+  const restartCurrentTrack = useCallback(() => {
+      // Starting over isn't moving on, so the listen so far is never a skip.
+      if (currentTrackId !== null) {
+          listeningTracker.finish(true);
+          listeningTracker.start(currentTrackId);
+      }
+      const engine = engineRef.current;
+      if (engine) {
+          engine.seek(0);
+          engine.play().catch(e => console.error("Playback failed", e));
+      }
+      setIsPlaying(true);
+  }, [currentTrackId, listeningTracker]);
+
+  // Selecting from the Library starts a new queue from the list it was picked in.
+  const handleLibraryTrackSelect = useCallback((id: number, listIds: number[] = tracks.map(t => t.id)) => {
+      if (id !== currentTrackId) {
+          setQueue(prev => startQueue(prev, listIds, id, currentTrackId));
+      }
+      handleTrackSelect(id);
+  }, [currentTrackId, tracks, handleTrackSelect]);
+
   const playNextTrack = useCallback(() => {
-      if (tracks.length === 0) return;
-      if (tracks.length === 1 && currentTrackId === tracks[0].id) {
-          if(audioRef.current) {
-            audioRef.current.currentTime = 0;
-            audioRef.current.play();
-          }
+      const { queue: nextQueue, nextId } = advanceQueue(queue, currentTrackId);
+      if (nextId === null) return;
+      setQueue(nextQueue);
+      if (nextId === currentTrackId) restartCurrentTrack();
+      else handleTrackSelect(nextId);
+  }, [queue, currentTrackId, handleTrackSelect, restartCurrentTrack]);
+
+  const playPrevTrack = useCallback(() => {
+      // Like most players, "previous" first rewinds a track that has been playing for a while.
+      if (engineRef.current && engineRef.current.getCurrentTime() > PREVIOUS_RESTARTS_AFTER_SECONDS) {
+          restartCurrentTrack();
           return;
       }
-      const currentIndex = tracks.findIndex(t => t.id === currentTrackId);
-      const nextIndex = (currentIndex + 1) % tracks.length;
-      handleTrackSelect(tracks[nextIndex].id);
-  }, [tracks, currentTrackId, handleTrackSelect]);
+      const { queue: prevQueue, prevId } = rewindQueue(queue, currentTrackId);
+      if (prevId === null) {
+          restartCurrentTrack();
+          return;
+      }
+      setQueue(prevQueue);
+      handleTrackSelect(prevId);
+  }, [queue, currentTrackId, handleTrackSelect, restartCurrentTrack]);
+
+  const handleTrackEnded = useCallback(() => {
+      listeningTracker.finish(true);
+      if (queue.repeat === 'one') {
+          restartCurrentTrack();
+          return;
+      }
+      const { queue: nextQueue, nextId } = advanceQueue(queue, currentTrackId);
+      if (nextId === null) {
+          // Reached the end of the list with repeat off.
+          setIsPlaying(false);
+          return;
+      }
+      setQueue(nextQueue);
+      if (nextId === currentTrackId) restartCurrentTrack();
+      else handleTrackSelect(nextId);
+  }, [queue, currentTrackId, handleTrackSelect, restartCurrentTrack, listeningTracker]);
+
+  // The engine already switched to the preloaded track; bring the queue and UI up to date.
+  const handleEngineAdvance = (trackId: number) => {
+      // Crossfading into the next track means this one played out.
+      listeningTracker.finish(true);
+      listeningTracker.start(trackId);
+      if (trackId !== currentTrackId || queue.repeat !== 'one') {
+          setQueue(advanceQueue(queue, currentTrackId).queue);
+      }
+      setCurrentTrackId(trackId);
+      setCurrentTime(0);
+  };
+
+  const handlePlayNext = (id: number) => {
+      if (currentTrackId === null) {
+          handleLibraryTrackSelect(id);
+          return;
+      }
+      setQueue(prev => playNext(prev, [id]));
+  };
+
+  const handleAddToQueue = (id: number) => {
+      if (currentTrackId === null) {
+          handleLibraryTrackSelect(id);
+          return;
+      }
+      setQueue(prev => addToQueue(prev, [id]));
+  };
+
+  // With nothing playing, the selected songs start playing as a list of their own.
+  const handleAddTracksToQueue = (ids: number[]) => {
+      if (currentTrackId === null) {
+          handleLibraryTrackSelect(ids[0], ids);
+          return;
+      }
+      setQueue(prev => addToQueue(prev, ids));
+  };
+
+  const handleToggleShuffle = () => {
+      setQueue(prev => setShuffle(prev, !prev.isShuffled, currentTrackId));
+  };
+
+  const handleCycleRepeat = () => {
+      const nextMode: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+      setQueue(prev => setRepeat(prev, nextMode[prev.repeat]));
+  };
 
-  const playPrevTrack = useCallback(() => {
-      if (tracks.length < 2) return;
-      const currentIndex = tracks.findIndex(t => t.id === currentTrackId);
-      const prevIndex = (currentIndex - 1 + tracks.length) % tracks.length;
-      handleTrackSelect(tracks[prevIndex].id);
-  }, [tracks, currentTrackId, handleTrackSelect]);
-  
   const handleSeek = (time: number) => {
-      if (audioRef.current) {
-          audioRef.current.currentTime = time;
+      if (engineRef.current) {
+          engineRef.current.seek(time);
           setCurrentTime(time);
+          setMediaSessionPosition(time, duration);
       }
   }
 
+  const handleDurationChange = (newDuration: number, trackId: number) => {
+      setDuration(newDuration);
+      // Remember the length so the Library can sort by it without loading the file again.
+      const track = tracks.find(t => t.id === trackId);
+      if (track && !track.duration && isFinite(newDuration)) {
+          const updatedTrack = { ...track, duration: newDuration };
+          setTracks(prev => prev.map(t => t.id === track.id ? updatedTrack : t));
+          updateTrackInDB(updatedTrack).catch(e => console.error("Failed to save track duration:", e));
+      }
+  };
+
+  engineEventsRef.current = {
+      onTimeUpdate: (time) => {
+          setCurrentTime(time);
+          listeningTracker.progress(time, duration);
+      },
+      onDurationChange: handleDurationChange,
+      onAdvance: handleEngineAdvance,
+      onEnded: handleTrackEnded,
+  };
+
+  mediaSessionActionsRef.current = {
+      play: () => { if (!isPlaying) handlePlayPause(); },
+      pause: () => { if (isPlaying) handlePlayPause(); },
+      next: playNextTrack,
+      previous: playPrevTrack,
+      seekTo: (time) => handleSeek(duration > 0 ? Math.min(time, duration) : time),
+      getCurrentTime: () => engineRef.current?.getCurrentTime() ?? 0,
+  };
+
+  // Closes whatever sits on top, one layer per press.
+  const closeTopmostView = () => {
+      if (isShortcutsHelpVisible) setIsShortcutsHelpVisible(false);
+      else if (editingTrackId !== null) closeTrackEditor();
+      else if (bulkEditTrackIds) setBulkEditTrackIds(null);
+      else if (smartPlaylistEditor) setSmartPlaylistEditor(null);
+      else if (isStatsVisible) setIsStatsVisible(false);
+      else if (isDuplicatesVisible) setIsDuplicatesVisible(false);
+      else if (isStorageVisible) setIsStorageVisible(false);
+      else if (isSettingsVisible) setIsSettingsVisible(false);
+      else if (isNowPlayingVisible) setIsNowPlayingVisible(false);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+      const clampVolume = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+      const position = engineRef.current?.getCurrentTime() ?? currentTime;
+      switch (action) {
+          case 'playPause': handlePlayPause(); break;
+          case 'seekBackward': if (currentTrackId) handleSeek(Math.max(0, position - SHORTCUT_SEEK_SECONDS)); break;
+          case 'seekForward': if (currentTrackId) handleSeek(Math.min(duration, position + SHORTCUT_SEEK_SECONDS)); break;
+          case 'volumeUp': setVolume(v => clampVolume(v + SHORTCUT_VOLUME_STEP)); break;
+          case 'volumeDown': setVolume(v => clampVolume(v - SHORTCUT_VOLUME_STEP)); break;
+          case 'next': playNextTrack(); break;
+          case 'previous': playPrevTrack(); break;
+          case 'mute':
+              if (volume > 0) {
+                  volumeBeforeMuteRef.current = volume;
+                  setVolume(0);
+              } else {
+                  setVolume(volumeBeforeMuteRef.current || 0.75);
+              }
+              break;
+          case 'lyrics': if (currentTrackId) setIsNowPlayingVisible(prev => !prev); break;
+          case 'search':
+              setIsNowPlayingVisible(false);
+              searchInputRef.current?.focus();
+              break;
+          case 'close': closeTopmostView(); break;
+          case 'help': setIsShortcutsHelpVisible(prev => !prev); break;
+      }
+  };
+
+  keyDownHandlerRef.current = (e: KeyboardEvent) => {
+      const key = keyFromEvent(e);
+      if (!key) return;
+      const action = findShortcutAction(keyBindings, key);
+      if (isTypingTarget(e.target)) {
+          // The close key leaves the text field, so the next press is a shortcut again.
+          if (action === 'close') (e.target as HTMLElement).blur();
+          return;
+      }
+      if (!action) return;
+      e.preventDefault();
+      runShortcut(action);
+  };
+
+  const handleRebindKey = useCallback((action: ShortcutAction, key: string) => {
+      setKeyBindings(prev => {
+          const next = rebindKey(prev, action, key);
+          savePreference('keyBindings', next);
+          return next;
+      });
+  }, []);
+
+  const handleResetKeyBindings = () => {
+      setKeyBindings(DEFAULT_KEY_BINDINGS);
+      savePreference('keyBindings', DEFAULT_KEY_BINDINGS);
+  };
+
+  const handleLibraryRestored = (mode: RestoreMode) => {
+      // A replace gives every track a new id, so nothing playing or queued survives it.
+      if (mode === 'replace') {
+          listeningTracker.finish(true);
+          engineRef.current?.stop();
+          setIsPlaying(false);
+          setCurrentTrackId(null);
+          setIsNowPlayingVisible(false);
+          setSelectedPlaylistId(null);
+          setQueue(prev => ({ ...createQueue(), isShuffled: prev.isShuffled, repeat: prev.repeat }));
+      }
+      loadLibrary();
+  };
+
+  const handleLyricsProviderSettingsChange = (settings: LyricsProviderSettings) => {
+      setLyricsProviderSettings(settings);
+      savePreference('lyricsProviders', settings);
+  };
+
+  const handleLyricsCached = (trackId: number, lyricsCache: CachedLyrics) => {
+      const track = tracks.find(t => t.id === trackId);
+      if (!track) return;
+      const updatedTrack = { ...track, lyricsCache };
+      setTracks(prev => prev.map(t => t.id === trackId ? updatedTrack : t));
+      updateTrackInDB(updatedTrack).catch(e => console.error("Failed to save lyrics:", e));
+  };
+
+  const handleLyricsSaved = async (trackId: number, lyrics: string) => {
+      const track = tracks.find(t => t.id === trackId);
+      if (!track) return;
+      const updatedTrack = { ...track, lyrics };
+      try {
+          await updateTrackInDB(updatedTrack);
+          setTracks(prev => prev.map(t => t.id === trackId ? updatedTrack : t));
+      } catch (error) {
+          console.error("Failed to save lyrics:", error);
+          alert("Could not save the lyrics.");
+      }
+  };
+
+  const handlePlaybackSettingsChange = (settings: PlaybackSettings) => {
+      setPlaybackSettings(settings);
+      savePreference('playbackSettings', settings);
+  };
+
+  const handleEqualizerChange = (settings: EqualizerSettings) => {
+      setEqualizerSettings(settings);
+      putSettingInDB('equalizer', settings).catch(e => console.error("Failed to save equalizer:", e));
+  };
+
+  const saveCustomEqPresets = (presets: EqualizerPreset[]) => {
+      setCustomEqPresets(presets);
+      putSettingInDB('equalizerPresets', presets).catch(e => console.error("Failed to save equalizer presets:", e));
+  };
+
+  const handleSaveEqPreset = (name: string) => {
+      const preset: EqualizerPreset = { id: `custom-${Date.now()}`, name, preamp: equalizerSettings.preamp, gains: [...equalizerSettings.gains] };
+      saveCustomEqPresets([...customEqPresets, preset]);
+      handleEqualizerChange({ ...equalizerSettings, presetId: preset.id });
+  };
+
+  const handleDeleteEqPreset = (id: string) => {
+      saveCustomEqPresets(customEqPresets.filter(p => p.id !== id));
+      if (equalizerSettings.presetId === id) {
+          handleEqualizerChange({ ...equalizerSettings, presetId: null });
+      }
+  };
+
   const handleDragEvents = (e: React.DragEvent) => {
       e.preventDefault();
       e.stopPropagation();
@@ -174,7 +1038,8 @@ const App: React.FC = () => {
 
   const handleDragEnter = (e: React.DragEvent) => {
       handleDragEvents(e);
-      if (e.dataTransfer.items && e.dataTransfer.items.length > 0) {
+      // Ignore internal drags such as reordering playlist rows.
+      if (e.dataTransfer.types.includes('Files')) {
           setIsDragging(true);
       }
   };
@@ -190,10 +1055,8 @@ const App: React.FC = () => {
   const handleDrop = (e: React.DragEvent) => {
       handleDragEvents(e);
       setIsDragging(false);
-      const files = e.dataTransfer.files;
-      if (files && files.length > 0) {
-          handleFilesSelected(files);
-      }
+      // Dropped folders are walked recursively; see services/folderImport.ts.
+      collectDroppedFiles(e.dataTransfer).then(importFiles);
   };
 
   // Editor and Now Playing Handlers
@@ -201,29 +1064,50 @@ const App: React.FC = () => {
       setEditingTrackId(id);
   };
   
-  const handleEditorSave = async (updatedData: { id: number, coverArt?: File, video?: File }) => {
-    const originalTrack = tracks.find(t => t.id === updatedData.id);
+  // Play counts and the like can change while the editor is open, so the edits go onto the latest copy.
+  const handleEditorSave = async (id: number, edits: TrackEdits) => {
+    const originalTrack = tracks.find(t => t.id === id);
     if (!originalTrack) return;
 
-    const updatedTrack: Track = { 
-        ...originalTrack,
-        coverArt: updatedData.coverArt || originalTrack.coverArt,
-        video: updatedData.video || originalTrack.video
-     };
+    const updatedTrack: Track = { ...originalTrack, ...edits };
+    if (!edits.coverArt) {
+      updatedTrack.coverThumbnail = undefined;
+    } else if (edits.coverArt !== originalTrack.coverArt) {
+      try {
+        Object.assign(updatedTrack, await processCoverArt(edits.coverArt));
+      } catch (error) {
+        console.error("Failed to process cover art:", error);
+        alert("Couldn't use that image as cover art. Try a JPEG or PNG image.");
+        return;
+      }
+    }
+
+    try {
+      await updateTrackInDB(updatedTrack);
+    } catch (error) {
+      console.error("Failed to save track:", error);
+      alert("Couldn't save your changes. Please try again.");
+      return;
+    }
+    setTracks(prevTracks => prevTracks.map(t => t.id === id ? updatedTrack : t));
+    setIsTrackEditorDirty(false);
+    setEditingTrackId(null);
+  };
 
-    await updateTrackInDB(updatedTrack);
-    setTracks(prevTracks => prevTracks.map(t => t.id === updatedData.id ? updatedTrack : t));
+  const closeTrackEditor = () => {
+    if (isTrackEditorDirty && !confirm("Discard your unsaved changes to this song?")) return;
+    setIsTrackEditorDirty(false);
     setEditingTrackId(null);
   };
 
   const handleBluetoothConnect = useCallback(async () => {
     // Disconnect logic
-    if (bluetoothDevice && audioRef.current) {
+    if (bluetoothDevice && engineRef.current) {
         try {
             if (bluetoothDevice.gatt?.connected) {
                 bluetoothDevice.gatt.disconnect();
             }
-            await (audioRef.current as any).setSinkId('');
+            await engineRef.current.setSinkId('');
             setBluetoothDevice(null);
             console.log('Disconnected from Bluetooth device.');
         } catch (error) {
@@ -234,7 +1118,7 @@ const App: React.FC = () => {
     }
 
     // Connect logic
-    if (!isBluetoothSupported || !audioRef.current) {
+    if (!isBluetoothSupported || !engineRef.current) {
         alert('Web Bluetooth or Audio Output API is not supported on this browser.');
         return;
     }
@@ -252,12 +1136,10 @@ const App: React.FC = () => {
         device.addEventListener('gattserverdisconnected', () => {
             setBluetoothDevice(null);
             console.log('Bluetooth device disconnected.');
-            if (audioRef.current) {
-                (audioRef.current as any).setSinkId('');
-            }
+            engineRef.current?.setSinkId('').catch(e => console.error('Error resetting audio output:', e));
         });
         
-        await (audioRef.current as any).setSinkId(device.id);
+        await engineRef.current.setSinkId(device.id);
         setBluetoothDevice(device);
         console.log(`Audio output successfully set to ${device.name}`);
 
@@ -273,6 +1155,8 @@ const App: React.FC = () => {
 
   const currentTrack = tracks.find(t => t.id === currentTrackId) || null;
   const editingTrack = tracks.find(t => t.id === editingTrackId) || null;
+  const bulkEditTracks = bulkEditTrackIds ? tracks.filter(t => bulkEditTrackIds.includes(t.id)) : [];
+  const upNextTracks = queue.upNext.map(id => tracks.find(t => t.id === id)).filter((t): t is Track => !!t);
 
   return (
     <div 
@@ -283,11 +1167,86 @@ const App: React.FC = () => {
         onDrop={handleDrop}
     >
       <UploadOverlay isVisible={isDragging} />
+      {isShortcutsHelpVisible && (
+        <KeyboardShortcutsHelp
+            bindings={keyBindings}
+            onRebind={handleRebindKey}
+            onResetBindings={handleResetKeyBindings}
+            onClose={() => setIsShortcutsHelpVisible(false)}
+        />
+      )}
+      {isStatsVisible && (
+        <StatsModal
+            tracks={tracks}
+            onPlayTrack={(id) => handleLibraryTrackSelect(id)}
+            onClose={() => setIsStatsVisible(false)}
+        />
+      )}
+      {isStorageVisible && (
+        <StorageModal
+            tracks={tracks}
+            onRemoveMedia={handleRemoveTrackMedia}
+            onDeleteTrack={handleTrackDelete}
+            onFindDuplicates={() => { setIsStorageVisible(false); setIsDuplicatesVisible(true); }}
+            onClose={() => setIsStorageVisible(false)}
+        />
+      )}
+      {isDuplicatesVisible && (
+        <DuplicatesModal
+            tracks={tracks}
+            onTracksHashed={handleTracksHashed}
+            onMerge={handleMergeDuplicates}
+            onClose={() => setIsDuplicatesVisible(false)}
+        />
+      )}
+      {importStatus && (
+        <ImportPanel
+            status={importStatus}
+            onCancel={() => importControllerRef.current?.abort()}
+            onRetry={() => runImport([...importStatus.failures.map(failure => failure.item), ...importStatus.cancelled])}
+            onDismiss={() => setImportStatus(null)}
+        />
+      )}
+      {duplicatePrompt && (
+        <DuplicateImportDialog name={duplicatePrompt.name} onChoose={duplicatePrompt.resolve} />
+      )}
+      {smartPlaylistEditor && (
+        <SmartPlaylistEditor
+            playlist={playlists.find(p => p.id === smartPlaylistEditor.playlistId) ?? null}
+            tracks={tracks}
+            onSave={handleSaveSmartPlaylist}
+            onClose={() => setSmartPlaylistEditor(null)}
+        />
+      )}
+      {isSettingsVisible && (
+        <SettingsModal
+            playbackSettings={playbackSettings}
+            equalizerSettings={equalizerSettings}
+            customEqPresets={customEqPresets}
+            onPlaybackSettingsChange={handlePlaybackSettingsChange}
+            onEqualizerChange={handleEqualizerChange}
+            onSaveEqPreset={handleSaveEqPreset}
+            onDeleteEqPreset={handleDeleteEqPreset}
+            lyricsProviderSettings={lyricsProviderSettings}
+            onLyricsProviderSettingsChange={handleLyricsProviderSettingsChange}
+            onLibraryRestored={handleLibraryRestored}
+            onClose={() => setIsSettingsVisible(false)}
+        />
+      )}
       {editingTrack && (
         <TrackEditorModal 
             track={editingTrack}
+            eqPresets={[...BUILT_IN_PRESETS, ...customEqPresets]}
             onSave={handleEditorSave}
-            onClose={() => setEditingTrackId(null)}
+            onDirtyChange={setIsTrackEditorDirty}
+            onClose={closeTrackEditor}
+        />
+      )}
+      {bulkEditTracks.length > 0 && (
+        <BulkEditModal
+            tracks={bulkEditTracks}
+            onSave={handleBulkEditSave}
+            onClose={() => setBulkEditTrackIds(null)}
         />
       )}
       {isNowPlayingVisible && currentTrack && (
@@ -296,12 +1255,21 @@ const App: React.FC = () => {
             isPlaying={isPlaying}
             duration={duration}
             currentTime={currentTime}
+            waveform={currentWaveform}
             volume={volume}
             onPlayPause={handlePlayPause}
             onNext={playNextTrack}
             onPrev={playPrevTrack}
             onSeek={handleSeek}
+            getCurrentTime={() => engineRef.current?.getCurrentTime() ?? currentTime}
             onVolumeChange={setVolume}
+            upNext={upNextTracks}
+            queuePriorityCount={queue.priorityCount}
+            onRemoveFromQueue={(index) => setQueue(prev => removeFromUpNext(prev, index))}
+            onMoveInQueue={(from, to) => setQueue(prev => moveInUpNext(prev, from, to))}
+            lyricsProviderSettings={lyricsProviderSettings}
+            onLyricsCached={handleLyricsCached}
+            onLyricsSaved={handleLyricsSaved}
             onClose={() => setIsNowPlayingVisible(false)}
         />
       )}
@@ -311,18 +1279,65 @@ const App: React.FC = () => {
                   <span className="material-symbols-outlined text-3xl text-spotify-green">podcasts</span>
                   <h1 className="text-xl font-bold">rocioramirezpena</h1>
               </div>
-              <FileUpload onFilesSelected={handleFilesSelected} isLoading={isUploading} />
+              <div className="flex items-center space-x-2">
+                  <FileUpload onFilesSelected={handleFilesSelected} isLoading={!!importStatus?.isRunning} progress={importStatus?.isRunning ? importStatus.progress : undefined} />
+                  <button
+                      onClick={() => setIsStatsVisible(true)}
+                      className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                      aria-label="Listening stats"
+                  >
+                      <span className="material-symbols-outlined">insights</span>
+                  </button>
+                  <button
+                      onClick={() => setIsStorageVisible(true)}
+                      className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                      aria-label="Storage"
+                  >
+                      <span className="material-symbols-outlined">storage</span>
+                  </button>
+                  <button
+                      onClick={() => setIsShortcutsHelpVisible(true)}
+                      className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                      aria-label="Keyboard shortcuts"
+                  >
+                      <span className="material-symbols-outlined">keyboard</span>
+                  </button>
+                  <button
+                      onClick={() => setIsSettingsVisible(true)}
+                      className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                      aria-label="Settings"
+                  >
+                      <span className="material-symbols-outlined">settings</span>
+                  </button>
+              </div>
           </div>
       </header>
       <main className="flex-grow overflow-y-auto">
         <div className="max-w-4xl mx-auto p-4 sm:p-6 lg:p-8">
             <Library 
                 tracks={tracks} 
+                playlists={playlists}
+                selectedPlaylistId={selectedPlaylistId}
                 currentTrackId={currentTrackId}
                 isPlaying={isPlaying}
-                onTrackSelect={handleTrackSelect}
-                onTrackDelete={handleTrackDelete}
+                onTrackSelect={handleLibraryTrackSelect}
+                onTracksDelete={handleTracksDelete}
                 onTrackEditRequest={handleTrackEditRequest}
+                onBulkEditRequest={setBulkEditTrackIds}
+                onSetCoverArt={handleSetCoverArt}
+                onSelectPlaylist={setSelectedPlaylistId}
+                onCreatePlaylist={handleCreatePlaylist}
+                onCreateSmartPlaylist={() => setSmartPlaylistEditor({ playlistId: null })}
+                onEditSmartPlaylist={(id) => setSmartPlaylistEditor({ playlistId: id })}
+                onRenamePlaylist={handleRenamePlaylist}
+                onDeletePlaylist={handleDeletePlaylist}
+                onReorderPlaylist={handleReorderPlaylist}
+                onAddToPlaylist={handleAddToPlaylist}
+                onRemoveFromPlaylist={handleRemoveFromPlaylist}
+                onPlayNext={handlePlayNext}
+                onAddToQueue={handleAddToQueue}
+                onAddTracksToQueue={handleAddTracksToQueue}
+                searchInputRef={searchInputRef}
             />
         </div>
       </main>
@@ -332,24 +1347,24 @@ const App: React.FC = () => {
             isPlaying={isPlaying}
             duration={duration}
             currentTime={currentTime}
+            waveform={currentWaveform}
             volume={volume}
             onPlayPause={handlePlayPause}
             onNext={playNextTrack}
             onPrev={playPrevTrack}
             onSeek={handleSeek}
+            getCurrentTime={() => engineRef.current?.getCurrentTime() ?? currentTime}
             onVolumeChange={setVolume}
+            isShuffled={queue.isShuffled}
+            repeatMode={queue.repeat}
+            onToggleShuffle={handleToggleShuffle}
+            onCycleRepeat={handleCycleRepeat}
             onExpand={() => setIsNowPlayingVisible(true)}
             isBluetoothSupported={isBluetoothSupported}
             isBluetoothConnected={bluetoothDevice !== null}
             onBluetoothConnect={handleBluetoothConnect}
         />
       </footer>
-      <audio 
-        ref={audioRef}
-        onTimeUpdate={() => audioRef.current && setCurrentTime(audioRef.current.currentTime)}
-        onLoadedMetadata={() => audioRef.current && setDuration(audioRef.current.duration)}
-        onEnded={playNextTrack}
-      />
     </div>
   );
 };
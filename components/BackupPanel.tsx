@@ -0,0 +1,114 @@
+import React, { useState, useRef } from 'react';
+import { BackupProgress, RestoreMode, exportLibrary, restoreLibrary } from '../services/backup';
+import { formatFileSize } from '../services/format';
+
+interface BackupPanelProps {
+  // Called after a restore, even a failed one, so the library can be reloaded from what was actually stored.
+  onLibraryRestored: (mode: RestoreMode) => void;
+}
+
+const PHASE_LABELS: Record<BackupProgress['phase'], string> = {
+  exporting: 'Exporting',
+  verifying: 'Checking backup',
+  restoring: 'Restoring',
+};
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ onLibraryRestored }) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [message, setMessage] = useState('');
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setMessage('');
+    try {
+      await exportLibrary(setProgress);
+      setMessage('Backup saved.');
+    } catch (error) {
+      if ((error as Error).name !== 'AbortError') {
+        console.error("Failed to export library:", error);
+        alert(`Couldn't export the library: ${(error as Error).message ?? error}`);
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (mode === 'replace' && !confirm('Replace your whole library with this backup? Songs and playlists that are not in the backup will be deleted.')) {
+      return;
+    }
+
+    setMessage('');
+    try {
+      const result = await restoreLibrary(file, mode, setProgress);
+      onLibraryRestored(mode);
+      const parts = [`Restored ${result.restoredTracks} songs and ${result.restoredPlaylists} playlists.`];
+      if (result.skippedTracks > 0) parts.push(`${result.skippedTracks} songs were already in your library.`);
+      setMessage(parts.join(' '));
+      if (result.corruptedTracks.length > 0) {
+        alert(`These songs were damaged in the backup and were not restored:\n\n${result.corruptedTracks.join('\n')}`);
+      }
+    } catch (error) {
+      console.error("Failed to restore library:", error);
+      onLibraryRestored(mode);
+      alert(`Couldn't restore the backup: ${(error as Error).message ?? error}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-4">Backup</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Your library only lives in this browser. Export it to a single file to keep it safe or move it to another browser.
+      </p>
+
+      {progress ? (
+        <div>
+          <div className="flex justify-between text-sm text-gray-300 mb-1">
+            <span>{PHASE_LABELS[progress.phase]}…</span>
+            <span>{formatFileSize(progress.done)} / {formatFileSize(progress.total)}</span>
+          </div>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-spotify-green transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <button onClick={handleExport} className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-semibold text-white bg-gray-700 rounded-full hover:bg-gray-600 transition-colors">
+            <span className="material-symbols-outlined">download</span>
+            <span>Export library</span>
+          </button>
+
+          <div className="flex items-center space-x-4 text-sm text-gray-300">
+            <span>When restoring:</span>
+            <label className="flex items-center space-x-1 cursor-pointer">
+              <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-spotify-green" />
+              <span>Merge</span>
+            </label>
+            <label className="flex items-center space-x-1 cursor-pointer">
+              <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-spotify-green" />
+              <span>Replace</span>
+            </label>
+          </div>
+          <button onClick={() => restoreInputRef.current?.click()} className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-semibold text-white bg-gray-700 rounded-full hover:bg-gray-600 transition-colors">
+            <span className="material-symbols-outlined">upload</span>
+            <span>Import library</span>
+          </button>
+          <input type="file" accept=".tar,application/x-tar" ref={restoreInputRef} onChange={handleRestoreFile} className="hidden" />
+        </div>
+      )}
+
+      {message && <p className="mt-3 text-sm text-spotify-green">{message}</p>}
+    </section>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { Playlist } from '../types';
+import { EditIcon } from './icons';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  // Regular playlists only; smart ones pick their own songs.
+  playlists: Playlist[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onAddToQueue: () => void;
+  onAddToPlaylist: (playlistId: number) => void;
+  onSetCoverArt: (file: File) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+const actionClassName = 'flex items-center px-3 py-1.5 rounded-full text-xs font-semibold text-gray-200 bg-gray-700 hover:bg-gray-600 transition-colors whitespace-nowrap';
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount, visibleCount, playlists,
+  onSelectAll, onClearSelection, onAddToQueue, onAddToPlaylist, onSetCoverArt, onEdit, onDelete
+}) => {
+  const [isPlaylistMenuOpen, setIsPlaylistMenuOpen] = useState(false);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCoverChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onSetCoverArt(file);
+  };
+
+  return (
+    <div className="sticky top-0 z-10 flex items-center flex-wrap gap-2 px-3 py-2 rounded-md bg-gray-800 border border-gray-700 shadow-lg">
+      <span className="text-sm font-semibold text-white mr-1">{selectedCount} selected</span>
+      {selectedCount < visibleCount && (
+        <button onClick={onSelectAll} className="text-xs font-semibold text-gray-400 hover:text-white">Select all {visibleCount}</button>
+      )}
+      <button onClick={onClearSelection} className="text-xs font-semibold text-gray-400 hover:text-white">Clear</button>
+      <div className="flex items-center flex-wrap gap-2 ml-auto">
+        <button onClick={onAddToQueue} className={actionClassName}>
+          <span className="material-symbols-outlined text-base mr-1">queue_music</span>
+          Add to queue
+        </button>
+        <div className="relative" onMouseLeave={() => setIsPlaylistMenuOpen(false)}>
+          <button onClick={() => setIsPlaylistMenuOpen(open => !open)} className={actionClassName}>
+            <span className="material-symbols-outlined text-base mr-1">playlist_add</span>
+            Add to playlist
+          </button>
+          {isPlaylistMenuOpen && (
+            <ul className="absolute right-0 top-full z-20 w-48 py-1 bg-gray-800 rounded-md shadow-xl border border-gray-700">
+              {playlists.length === 0 ? (
+                <li className="px-4 py-2 text-sm text-gray-400">No playlists yet</li>
+              ) : playlists.map(playlist => (
+                <li key={playlist.id}>
+                  <button
+                    onClick={() => { onAddToPlaylist(playlist.id); setIsPlaylistMenuOpen(false); }}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 truncate"
+                  >
+                    {playlist.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <button onClick={() => coverInputRef.current?.click()} className={actionClassName}>
+          <span className="material-symbols-outlined text-base mr-1">image</span>
+          Set cover
+        </button>
+        <input type="file" accept="image/*" ref={coverInputRef} onChange={handleCoverChange} className="hidden" />
+        <button onClick={onEdit} className={actionClassName}>
+          <EditIcon className="w-4 h-4 mr-1" />
+          Edit info
+        </button>
+        <button onClick={onDelete} className="flex items-center px-3 py-1.5 rounded-full text-xs font-semibold text-red-300 bg-red-500/20 hover:bg-red-500/30 transition-colors whitespace-nowrap">
+          <span className="material-symbols-outlined text-base mr-1">delete</span>
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionBar;
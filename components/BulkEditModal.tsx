@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Track } from '../types';
+import { XMarkIcon } from './icons';
+
+type SharedField = 'artist' | 'albumArtist' | 'album' | 'genre' | 'year';
+
+export type BulkTrackChanges = Partial<Pick<Track, SharedField>>;
+
+interface BulkEditModalProps {
+  tracks: Track[];
+  // Only the fields the user touched; an undefined value clears that field on every song.
+  onSave: (changes: BulkTrackChanges) => void;
+  onClose: () => void;
+}
+
+const FIELDS: { field: SharedField; label: string }[] = [
+  { field: 'artist', label: 'Artist' },
+  { field: 'albumArtist', label: 'Album artist' },
+  { field: 'album', label: 'Album' },
+  { field: 'genre', label: 'Genre' },
+  { field: 'year', label: 'Year' },
+];
+
+// The value every song shares, or null when they differ.
+const sharedValue = (tracks: Track[], field: SharedField): string | null => {
+  const values = new Set(tracks.map(track => String(track[field] ?? '')));
+  return values.size === 1 ? [...values][0] : null;
+};
+
+const BulkEditModal: React.FC<BulkEditModalProps> = ({ tracks, onSave, onClose }) => {
+  // Only fields in here get written, so untouched mixed values stay as they are.
+  const [edits, setEdits] = useState<Partial<Record<SharedField, string>>>({});
+
+  const yearEdit = edits.year?.trim();
+  const isYearValid = !yearEdit || /^\d{1,4}$/.test(yearEdit);
+  const changedCount = Object.keys(edits).length;
+
+  const handleSave = () => {
+    const changes: BulkTrackChanges = {};
+    for (const [field, value] of Object.entries(edits) as [SharedField, string][]) {
+      const trimmed = value.trim();
+      if (field === 'year') changes.year = trimmed ? Number(trimmed) : undefined;
+      else changes[field] = trimmed || undefined;
+    }
+    onSave(changes);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <form
+        className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md m-4 transform transition-all flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => { e.preventDefault(); handleSave(); }}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-white">Edit {tracks.length} songs</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-400">Changes apply to every selected song. Fields you leave alone keep their current values.</p>
+          {FIELDS.map(({ field, label }) => {
+            const shared = sharedValue(tracks, field);
+            const isChanged = field in edits;
+            return (
+              <div key={field}>
+                <div className="flex items-center justify-between mb-1">
+                  <label htmlFor={`bulk-${field}`} className="block text-sm font-medium text-gray-300">{label}</label>
+                  {isChanged && (
+                    <button
+                      type="button"
+                      onClick={() => setEdits(({ [field]: _, ...rest }) => rest)}
+                      className="text-xs font-semibold text-gray-400 hover:text-white"
+                    >
+                      Undo
+                    </button>
+                  )}
+                </div>
+                <input
+                  id={`bulk-${field}`}
+                  type="text"
+                  inputMode={field === 'year' ? 'numeric' : undefined}
+                  value={edits[field] ?? shared ?? ''}
+                  placeholder={shared === null ? 'Multiple values' : ''}
+                  onChange={(e) => setEdits(prev => ({ ...prev, [field]: e.target.value }))}
+                  className={`w-full bg-gray-900 text-white text-sm rounded-md px-3 py-2 border focus:outline-none focus:border-spotify-green ${isChanged ? 'border-spotify-green/60' : 'border-gray-700'}`}
+                />
+                {isChanged && !edits[field]?.trim() && (
+                  <p className="mt-1 text-xs text-gray-500">Will be cleared on all {tracks.length} songs.</p>
+                )}
+              </div>
+            );
+          })}
+          {!isYearValid && <p className="text-xs text-red-400">Year must be a number.</p>}
+        </div>
+        <div className="p-4 bg-gray-800/50 border-t border-gray-700 flex justify-end space-x-3 rounded-b-lg flex-shrink-0">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-bold text-gray-300 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors">Cancel</button>
+          <button
+            type="submit"
+            disabled={changedCount === 0 || !isYearValid}
+            className="px-6 py-2 text-sm font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:hover:scale-100"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default BulkEditModal;
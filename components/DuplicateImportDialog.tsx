@@ -0,0 +1,53 @@
+import React from 'react';
+import { DuplicateChoice } from '../services/duplicates';
+import { XMarkIcon } from './icons';
+
+interface DuplicateImportDialogProps {
+  // The first file found to be in the library already.
+  name: string;
+  // Null cancels the whole import.
+  onChoose: (choice: DuplicateChoice | null) => void;
+}
+
+const CHOICES: { choice: DuplicateChoice; label: string; description: string }[] = [
+  { choice: 'skip', label: 'Skip', description: 'Import only the new songs.' },
+  { choice: 'replace', label: 'Replace', description: 'Swap in the new files. Play counts, playlists and your edits stay.' },
+  { choice: 'keepBoth', label: 'Keep both', description: 'Add them again as separate copies.' },
+];
+
+const DuplicateImportDialog: React.FC<DuplicateImportDialogProps> = ({ name, onChoose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => onChoose(null)}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md m-4 transform transition-all flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-white">Already in your library</h2>
+          <button onClick={() => onChoose(null)} className="text-gray-400 hover:text-white" aria-label="Cancel import">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-300">
+            <span className="font-semibold text-white break-all">{name}</span> is already in your library. What should happen to it and to any other copies in this import?
+          </p>
+          <div className="space-y-2">
+            {CHOICES.map(({ choice, label, description }) => (
+              <button
+                key={choice}
+                onClick={() => onChoose(choice)}
+                className="w-full text-left px-4 py-3 rounded-md bg-gray-900/50 border border-gray-700 hover:border-spotify-green transition-colors"
+              >
+                <span className="block text-sm font-semibold text-white">{label}</span>
+                <span className="block text-xs text-gray-400">{description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateImportDialog;
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { Track } from '../types';
+import { DuplicateGroup, findDuplicateGroups, hashPossibleCopies, pickCopyToKeep } from '../services/duplicates';
+import { formatAudioInfo, formatFileSize } from '../services/format';
+import { XMarkIcon } from './icons';
+
+interface DuplicatesModalProps {
+  tracks: Track[];
+  // Stores content hashes worked out during the scan.
+  onTracksHashed: (tracks: Track[]) => Promise<void>;
+  // Keeps one copy, merging the others' history and playlists into it, and deletes the rest.
+  onMerge: (keepId: number, removeIds: number[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const groupKey = (group: DuplicateGroup) => group.tracks.map(track => track.id).sort((a, b) => a - b).join(',');
+
+const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ tracks, onTracksHashed, onMerge, onClose }) => {
+  const [isScanning, setIsScanning] = useState(true);
+  // The copy picked to keep in each group, when it isn't the suggested one.
+  const [keepChoices, setKeepChoices] = useState<Record<string, number>>({});
+  // Near-duplicate groups the user said are different songs, for as long as the window is open.
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  // Hashing reads whole files, so it only happens once per opening and only for likely copies.
+  useEffect(() => {
+    let isCancelled = false;
+    hashPossibleCopies(tracks)
+      .then(hashed => (hashed.length > 0 && !isCancelled ? onTracksHashed(hashed) : undefined))
+      .catch(error => console.error("Failed to scan for duplicates:", error))
+      .finally(() => {
+        if (!isCancelled) setIsScanning(false);
+      });
+    return () => { isCancelled = true; };
+  }, []);
+
+  const groups = isScanning ? [] : findDuplicateGroups(tracks).filter(group => !dismissed.includes(groupKey(group)));
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const key = groupKey(group);
+    const keepId = keepChoices[key] ?? pickCopyToKeep(group).id;
+    setMergingKey(key);
+    try {
+      await onMerge(keepId, group.tracks.map(track => track.id).filter(id => id !== keepId));
+    } catch (error) {
+      console.error("Failed to merge duplicates:", error);
+      alert("Couldn't remove the extra copies. Please try again.");
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg m-4 transform transition-all flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-white">Duplicates</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {isScanning ? (
+            <p className="text-center text-gray-400 animate-pulse">Scanning your library...</p>
+          ) : groups.length === 0 ? (
+            <div className="flex flex-col items-center text-gray-500 py-8">
+              <span className="material-symbols-outlined text-6xl mb-4 text-gray-600">done_all</span>
+              <p className="text-center">No duplicates found.</p>
+            </div>
+          ) : (
+            groups.map(group => {
+              const key = groupKey(group);
+              const keepId = keepChoices[key] ?? pickCopyToKeep(group).id;
+              return (
+                <section key={key} className="bg-gray-900/50 rounded-md border border-gray-700 p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400">
+                      {group.kind === 'exact' ? 'Identical files' : 'Same song, different files'}
+                    </h3>
+                    {group.kind === 'near' && (
+                      <button
+                        onClick={() => setDismissed(prev => [...prev, key])}
+                        className="text-xs font-semibold text-gray-400 hover:text-white"
+                      >
+                        Not duplicates
+                      </button>
+                    )}
+                  </div>
+                  <ul className="space-y-1" role="radiogroup" aria-label="Copy to keep">
+                    {group.tracks.map(track => (
+                      <li key={track.id}>
+                        <label className="flex items-start px-2 py-1.5 rounded-md hover:bg-gray-700/60 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={`keep-${key}`}
+                            checked={track.id === keepId}
+                            onChange={() => setKeepChoices(prev => ({ ...prev, [key]: track.id }))}
+                            className="mt-1 mr-3 accent-spotify-green"
+                          />
+                          <span className="min-w-0">
+                            <span className="block text-sm text-white truncate">{track.name}</span>
+                            <span className="block text-xs text-gray-400 truncate">
+                              {[track.artist, track.album].filter(Boolean).join(' • ')}
+                            </span>
+                            <span className="block text-xs text-gray-500">
+                              {[
+                                formatAudioInfo(track),
+                                formatFileSize(track.file.size),
+                                `${track.playCount ?? 0} ${track.playCount === 1 ? 'play' : 'plays'}`,
+                                `added ${new Date(track.dateAdded).toLocaleDateString()}`,
+                              ].filter(Boolean).join(' · ')}
+                            </span>
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={() => handleMerge(group)}
+                      disabled={mergingKey !== null}
+                      className="px-4 py-1.5 text-sm font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:hover:scale-100"
+                    >
+                      {mergingKey === key ? 'Removing...' : `Keep selected, remove ${group.tracks.length - 1}`}
+                    </button>
+                  </div>
+                </section>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesModal;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { BUILT_IN_PRESETS, EQ_BANDS, EQ_MAX_GAIN_DB, EqualizerPreset, EqualizerSettings, findPreset } from '../services/equalizer';
+
+interface EqualizerPanelProps {
+  settings: EqualizerSettings;
+  customPresets: EqualizerPreset[];
+  onChange: (settings: EqualizerSettings) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const formatFrequency = (frequency: number) => frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+
+const formatGain = (gain: number) => `${gain > 0 ? '+' : ''}${gain}`;
+
+const EqualizerPanel: React.FC<EqualizerPanelProps> = ({ settings, customPresets, onChange, onSavePreset, onDeletePreset }) => {
+  const selectedPreset = findPreset(settings.presetId, customPresets);
+
+  const handlePresetChange = (id: string) => {
+    const preset = findPreset(id, customPresets);
+    if (preset) {
+      onChange({ ...settings, enabled: true, presetId: preset.id, preamp: preset.preamp, gains: [...preset.gains] });
+    }
+  };
+
+  const handleGainChange = (index: number, gain: number) => {
+    const gains = settings.gains.map((g, i) => (i === index ? gain : g));
+    onChange({ ...settings, presetId: null, gains });
+  };
+
+  const handleSavePreset = () => {
+    const name = prompt('Name this preset');
+    if (name?.trim()) {
+      onSavePreset(name.trim());
+    }
+  };
+
+  const handleDeletePreset = () => {
+    if (selectedPreset && !selectedPreset.isBuiltIn && confirm(`Delete the preset "${selectedPreset.name}"?`)) {
+      onDeletePreset(selectedPreset.id);
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400">Equalizer</h3>
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-spotify-green"
+          />
+          <span>Enabled</span>
+        </label>
+      </div>
+
+      <div className={`space-y-4 ${settings.enabled ? '' : 'opacity-50'}`}>
+        <div className="flex items-center space-x-2">
+          <select
+            value={settings.presetId ?? ''}
+            onChange={(e) => handlePresetChange(e.target.value)}
+            className="flex-grow bg-gray-900 text-white text-sm rounded-md px-3 py-2 border border-gray-700 focus:outline-none focus:border-spotify-green"
+            aria-label="Equalizer preset"
+          >
+            {settings.presetId === null && <option value="">Custom</option>}
+            {BUILT_IN_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            {customPresets.length > 0 && (
+              <optgroup label="Your presets">
+                {customPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+          <button onClick={handleSavePreset} className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors" aria-label="Save as preset" title="Save as preset">
+            <span className="material-symbols-outlined">save</span>
+          </button>
+          {selectedPreset && !selectedPreset.isBuiltIn && (
+            <button onClick={handleDeletePreset} className="p-2 rounded-full text-gray-400 hover:text-red-400 hover:bg-red-500/20 transition-colors" aria-label="Delete preset" title="Delete preset">
+              <span className="material-symbols-outlined">delete</span>
+            </button>
+          )}
+        </div>
+
+        <div className="flex justify-between items-end h-40">
+          {EQ_BANDS.map((frequency, index) => (
+            <div key={frequency} className="flex flex-col items-center h-full">
+              <span className="text-[10px] text-gray-400 mb-1">{formatGain(settings.gains[index])}</span>
+              <input
+                type="range"
+                min={-EQ_MAX_GAIN_DB}
+                max={EQ_MAX_GAIN_DB}
+                step="1"
+                value={settings.gains[index]}
+                onChange={(e) => handleGainChange(index, Number(e.target.value))}
+                className="flex-grow w-4 accent-spotify-green"
+                style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                aria-label={`${formatFrequency(frequency)} Hz`}
+              />
+              <span className="text-[10px] text-gray-500 mt-1">{formatFrequency(frequency)}</span>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label htmlFor="preamp" className="text-sm font-medium text-gray-300">Preamp</label>
+            <span className="text-sm text-gray-400">{formatGain(settings.preamp)} dB</span>
+          </div>
+          <input
+            id="preamp"
+            type="range"
+            min={-EQ_MAX_GAIN_DB}
+            max={EQ_MAX_GAIN_DB}
+            step="0.5"
+            value={settings.preamp}
+            onChange={(e) => onChange({ ...settings, presetId: null, preamp: Number(e.target.value) })}
+            className="w-full accent-spotify-green"
+          />
+        </div>
+      </div>
+
+      <label className="mt-4 flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.limiter}
+          onChange={(e) => onChange({ ...settings, limiter: e.target.checked })}
+          className="accent-spotify-green"
+        />
+        <span>Limiter (prevents clipping when boosting)</span>
+      </label>
+    </section>
+  );
+};
+
+export default EqualizerPanel;
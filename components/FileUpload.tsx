@@ -1,12 +1,20 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef } from 'react';
 
 interface FileUploadProps {
   onFilesSelected: (files: FileList) => void;
   isLoading: boolean;
+  // How far the running import has got.
+  progress?: { done: number; total: number };
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, isLoading }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, isLoading, progress }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React doesn't know the attribute, so it's set on the element directly.
+  useEffect(() => {
+    if (folderInputRef.current) folderInputRef.current.webkitdirectory = true;
+  }, []);
 
   const handleButtonClick = () => {
     fileInputRef.current?.click();
@@ -20,23 +28,39 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, isLoading }) =
   };
 
   return (
-    <div>
+    <div className="flex items-center space-x-2">
       <input
         type="file"
         multiple
-        accept="audio/*"
+        accept="audio/*,.lrc,image/jpeg,image/png"
         ref={fileInputRef}
         onChange={handleFileChange}
         className="hidden"
         disabled={isLoading}
       />
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileChange}
+        className="hidden"
+        disabled={isLoading}
+      />
       <button
         onClick={handleButtonClick}
         disabled={isLoading}
         className="flex items-center justify-center space-x-2 px-4 py-2 text-sm font-bold text-white bg-black rounded-full border border-gray-600 hover:border-white transition-colors focus:outline-none focus:ring-2 focus:ring-spotify-green focus:ring-offset-2 focus:ring-offset-black disabled:opacity-50 disabled:cursor-not-allowed"
       >
         <span className="material-symbols-outlined text-lg">add</span>
-        <span>{isLoading ? 'Processing...' : 'Add Music'}</span>
+        <span>{isLoading ? (progress ? `Importing ${progress.done}/${progress.total}` : 'Processing...') : 'Add Music'}</span>
+      </button>
+      <button
+        onClick={() => folderInputRef.current?.click()}
+        disabled={isLoading}
+        className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Add folder"
+        title="Add folder"
+      >
+        <span className="material-symbols-outlined">create_new_folder</span>
       </button>
     </div>
   );
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ImportStatus } from '../services/importPipeline';
+import { ImportItem } from '../services/folderImport';
+import { STORAGE_FULL_ERROR } from '../services/db';
+import { XMarkIcon } from './icons';
+
+interface ImportPanelProps {
+  status: ImportStatus<ImportItem>;
+  onCancel: () => void;
+  // Runs the failed and cancelled files again.
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const ImportPanel: React.FC<ImportPanelProps> = ({ status, onCancel, onRetry, onDismiss }) => {
+  const { progress, isRunning, imported, skipped, failures, cancelled } = status;
+  const isStorageFull = failures.some(failure => failure.reason === STORAGE_FULL_ERROR);
+
+  return (
+    <div className="fixed bottom-28 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] bg-gray-800 rounded-lg shadow-xl border border-gray-700 flex flex-col max-h-[50vh]" role="status">
+      <div className="px-4 py-3 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+        <h2 className="text-sm font-semibold text-white">
+          {isRunning ? `Importing ${Math.min(progress.done + 1, progress.total)} of ${progress.total}` : 'Import finished'}
+        </h2>
+        {isRunning ? (
+          <button onClick={onCancel} className="text-xs font-semibold text-gray-400 hover:text-white">Cancel</button>
+        ) : (
+          <button onClick={onDismiss} className="text-gray-400 hover:text-white" aria-label="Dismiss">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+      <div className="px-4 py-3 space-y-3 overflow-y-auto text-sm">
+        {isRunning ? (
+          <>
+            <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+              <div className="h-full bg-spotify-green transition-all" style={{ width: `${progress.total > 0 ? progress.done / progress.total * 100 : 0}%` }} />
+            </div>
+            {progress.current.map((name, i) => (
+              <p key={i} className="text-xs text-gray-400 truncate">{name}</p>
+            ))}
+          </>
+        ) : (
+          <>
+            <p className="text-gray-300">
+              {[
+                `${imported} imported`,
+                skipped > 0 && `${skipped} skipped as duplicates`,
+                failures.length > 0 && `${failures.length} failed`,
+                cancelled.length > 0 && `${cancelled.length} cancelled`,
+              ].filter(Boolean).join(' · ')}
+            </p>
+            {failures.length > 0 && (
+              <ul className="space-y-1.5">
+                {failures.map(({ item, reason }, i) => (
+                  <li key={i}>
+                    <p className="text-white truncate">{item.file.name}</p>
+                    <p className="text-xs text-red-400">{reason}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {isStorageFull && <p className="text-xs text-gray-400">Free up space under Storage before retrying.</p>}
+            <div className="flex justify-end space-x-2">
+              <button onClick={onDismiss} className="px-3 py-1.5 text-xs font-bold text-gray-300 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors">Dismiss</button>
+              <button onClick={onRetry} className="px-3 py-1.5 text-xs font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform">
+                Retry {failures.length + cancelled.length}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportPanel;
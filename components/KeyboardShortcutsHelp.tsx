@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { KeyBindings, ShortcutAction, SHORTCUT_ACTIONS, formatKey, keyFromEvent } from '../services/shortcuts';
+import { XMarkIcon } from './icons';
+
+interface KeyboardShortcutsHelpProps {
+  bindings: KeyBindings;
+  onRebind: (action: ShortcutAction, key: string) => void;
+  onResetBindings: () => void;
+  onClose: () => void;
+}
+
+const KeyboardShortcutsHelp: React.FC<KeyboardShortcutsHelpProps> = ({ bindings, onRebind, onResetBindings, onClose }) => {
+  // The action waiting for its new key, if the user clicked "Change".
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (!recordingAction) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = keyFromEvent(e);
+      if (!key) return;
+      // Capture before the global shortcut handler sees the key.
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      // Esc backs out of recording instead of being bound.
+      if (key !== 'Escape') onRebind(recordingAction, key);
+      setRecordingAction(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [recordingAction, onRebind]);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md m-4 transform transition-all flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-white">Keyboard shortcuts</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <ul className="p-4 overflow-y-auto divide-y divide-gray-700/50">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => {
+            const isRecording = recordingAction === action;
+            return (
+              <li key={action} className="flex items-center justify-between py-2">
+                <span className="text-sm text-gray-300">{label}</span>
+                <button
+                  onClick={() => setRecordingAction(isRecording ? null : action)}
+                  className={`min-w-[4rem] px-3 py-1 rounded-md text-sm font-mono border transition-colors ${isRecording ? 'border-spotify-green text-spotify-green animate-pulse' : 'border-gray-600 text-white hover:border-gray-400'}`}
+                  title="Click, then press the new key"
+                  aria-label={`Change the key for ${label}`}
+                >
+                  {isRecording ? 'Press a key…' : formatKey(bindings[action])}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="p-4 bg-gray-800/50 border-t border-gray-700 flex justify-between items-center rounded-b-lg flex-shrink-0">
+          <button onClick={onResetBindings} className="text-sm text-gray-400 hover:text-white">Reset to defaults</button>
+          <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardShortcutsHelp;
@@ -1,33 +1,75 @@
 
-import React, { useState, useEffect } from 'react';
-import { Track } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Track, Playlist } from '../types';
 import { EditIcon } from './icons';
+import PlaylistBar from './PlaylistBar';
+import LibraryToolbar from './LibraryToolbar';
+import BulkActionBar from './BulkActionBar';
+import { LibrarySort, TrackFilter, DEFAULT_LIBRARY_SORT, getSearchWords, matchesSearch, matchesFilters, sortTracks } from '../services/search';
+import { loadPreference, savePreference } from '../services/preferences';
+import { evaluateSmartPlaylist } from '../services/smartPlaylists';
+import { formatAudioInfo, formatDuration, formatTotalDuration } from '../services/format';
 
 interface LibraryProps {
   tracks: Track[];
+  playlists: Playlist[];
+  selectedPlaylistId: number | null;
   currentTrackId: number | null;
   isPlaying: boolean;
-  onTrackSelect: (id: number) => void;
-  onTrackDelete: (id: number) => void;
+  // `listIds` is the list as currently shown, which playback then continues through.
+  onTrackSelect: (id: number, listIds: number[]) => void;
+  onTracksDelete: (ids: number[]) => void;
   onTrackEditRequest: (id: number) => void;
+  onBulkEditRequest: (ids: number[]) => void;
+  onSetCoverArt: (ids: number[], file: File) => void;
+  onSelectPlaylist: (id: number | null) => void;
+  onCreatePlaylist: (name: string) => void;
+  onCreateSmartPlaylist: () => void;
+  onEditSmartPlaylist: (id: number) => void;
+  onRenamePlaylist: (id: number, name: string) => void;
+  onDeletePlaylist: (id: number) => void;
+  onReorderPlaylist: (id: number, trackIds: number[]) => void;
+  onAddToPlaylist: (playlistId: number, trackIds: number[]) => void;
+  onRemoveFromPlaylist: (playlistId: number, trackId: number) => void;
+  onPlayNext: (id: number) => void;
+  onAddToQueue: (id: number) => void;
+  onAddTracksToQueue: (ids: number[]) => void;
+  // Lets the "/" shortcut focus the search box.
+  searchInputRef?: React.Ref<HTMLInputElement>;
 }
 
 interface TrackListItemProps {
     track: Track;
     isActive: boolean;
     isPlaying: boolean;
+    isSelected: boolean;
+    // While anything is selected, every row shows its checkbox.
+    isSelecting: boolean;
+    playlists: Playlist[];
     onTrackSelect: (id: number) => void;
+    // Gets the click so Shift can select a range.
+    onToggleSelect: (e: React.MouseEvent) => void;
     onTrackDelete: (id: number) => void;
     onTrackEditRequest: (id: number) => void;
+    onAddToPlaylist: (playlistId: number, trackIds: number[]) => void;
+    onPlayNext: (id: number) => void;
+    onAddToQueue: (id: number) => void;
+    // Only set when the row is shown inside a playlist.
+    onRemoveFromPlaylist?: () => void;
+    dragHandlers?: Pick<React.LiHTMLAttributes<HTMLLIElement>, 'draggable' | 'onDragStart' | 'onDragOver' | 'onDrop' | 'onDragEnd'>;
+    isDropTarget?: boolean;
 }
 
-const TrackListItem: React.FC<TrackListItemProps> = ({ track, isActive, isPlaying, onTrackSelect, onTrackDelete, onTrackEditRequest }) => {
+const TrackListItem: React.FC<TrackListItemProps> = ({ track, isActive, isPlaying, isSelected, isSelecting, playlists, onTrackSelect, onToggleSelect, onTrackDelete, onTrackEditRequest, onAddToPlaylist, onPlayNext, onAddToQueue, onRemoveFromPlaylist, dragHandlers, isDropTarget }) => {
     const [coverArtUrl, setCoverArtUrl] = useState('');
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
 
+    // Rows use the thumbnail; the full cover is only a fallback until one has been made.
+    const cover = track.coverThumbnail ?? track.coverArt;
     useEffect(() => {
         let url = '';
-        if (track.coverArt) {
-            url = URL.createObjectURL(track.coverArt);
+        if (cover) {
+            url = URL.createObjectURL(cover);
             setCoverArtUrl(url);
         } else {
             setCoverArtUrl('');
@@ -37,7 +79,7 @@ const TrackListItem: React.FC<TrackListItemProps> = ({ track, isActive, isPlayin
                 URL.revokeObjectURL(url);
             }
         };
-    }, [track.coverArt]);
+    }, [cover]);
 
     const handleTrackDelete = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -49,15 +91,33 @@ const TrackListItem: React.FC<TrackListItemProps> = ({ track, isActive, isPlayin
         onTrackEditRequest(track.id);
     }
 
+    const handleMenuAction = (e: React.MouseEvent, action: () => void) => {
+        e.stopPropagation();
+        action();
+        setIsMenuOpen(false);
+    }
+
     return (
         <li
-            onClick={() => onTrackSelect(track.id)}
+            // Ctrl/Cmd-click and Shift-click select instead of playing.
+            onClick={(e) => e.ctrlKey || e.metaKey || e.shiftKey ? onToggleSelect(e) : onTrackSelect(track.id)}
+            // Keeps Shift-click from also highlighting text across rows.
+            onMouseDown={(e) => { if (e.shiftKey) e.preventDefault(); }}
+            {...dragHandlers}
             className={`flex items-center justify-between p-3 rounded-md cursor-pointer transition-colors duration-200 group ${
-            isActive ? 'bg-gray-700/50' : 'hover:bg-gray-800/60'
-            }`}
+            isSelected ? 'bg-spotify-green/10' : isActive ? 'bg-gray-700/50' : 'hover:bg-gray-800/60'
+            } ${isDropTarget ? 'border-t-2 border-spotify-green' : ''}`}
             aria-current={isActive ? 'true' : 'false'}
         >
             <div className="flex items-center space-x-4 overflow-hidden">
+                <input
+                    type="checkbox"
+                    checked={isSelected}
+                    readOnly
+                    onClick={(e) => { e.stopPropagation(); onToggleSelect(e); }}
+                    className={`w-4 h-4 flex-shrink-0 accent-spotify-green cursor-pointer transition-opacity ${isSelecting ? '' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                    aria-label={`Select ${track.name}`}
+                />
                 <div className="w-12 h-12 flex-shrink-0 flex items-center justify-center bg-gray-800 rounded-md overflow-hidden">
                 {isActive && isPlaying ? (
                     <div className="w-5 h-5 flex justify-between items-end">
@@ -71,9 +131,18 @@ const TrackListItem: React.FC<TrackListItemProps> = ({ track, isActive, isPlayin
                     <span className="material-symbols-outlined text-2xl text-gray-400">music_note</span>
                 )}
                 </div>
-                <span className={`font-medium truncate ${isActive ? 'text-spotify-green' : 'text-gray-200'}`}>{track.name}</span>
+                <div className="overflow-hidden">
+                    <p className={`font-medium truncate ${isActive ? 'text-spotify-green' : 'text-gray-200'}`}>{track.name}</p>
+                    {(track.artist || track.album) && (
+                        <p className="text-sm text-gray-400 truncate">{[track.artist, track.album].filter(Boolean).join(' • ')}</p>
+                    )}
+                </div>
             </div>
             <div className="flex items-center space-x-2 flex-shrink-0">
+                <div className="flex flex-col items-end text-xs text-gray-400 ml-2">
+                    <span className="tabular-nums">{formatDuration(track.duration)}</span>
+                    <span className="hidden md:block text-gray-500">{formatAudioInfo(track)}</span>
+                </div>
                 <button
                     onClick={(e) => {
                         e.stopPropagation();
@@ -84,6 +153,51 @@ const TrackListItem: React.FC<TrackListItemProps> = ({ track, isActive, isPlayin
                 >
                     <span className="material-symbols-outlined text-2xl">play_arrow</span>
                 </button>
+                <div className="relative" onMouseLeave={() => setIsMenuOpen(false)}>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setIsMenuOpen(open => !open); }}
+                        className="p-2 rounded-full hover:bg-gray-700/80 text-gray-500 hover:text-white transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        aria-label={`More options for ${track.name}`}
+                    >
+                        <span className="material-symbols-outlined text-xl">more_horiz</span>
+                    </button>
+                    {isMenuOpen && (
+                        <ul className="absolute right-0 top-full z-20 w-48 py-1 bg-gray-800 rounded-md shadow-xl border border-gray-700">
+                            <li>
+                                <button onClick={(e) => handleMenuAction(e, () => onPlayNext(track.id))} className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700">
+                                    Play next
+                                </button>
+                            </li>
+                            <li>
+                                <button onClick={(e) => handleMenuAction(e, () => onAddToQueue(track.id))} className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700">
+                                    Add to queue
+                                </button>
+                            </li>
+                            <li className="px-4 pt-2 pb-1 mt-1 border-t border-gray-700 text-xs uppercase tracking-wider text-gray-500">Add to playlist</li>
+                            {playlists.length === 0 ? (
+                                <li className="px-4 py-2 text-sm text-gray-400">No playlists yet</li>
+                            ) : playlists.map(playlist => (
+                                <li key={playlist.id}>
+                                    <button
+                                        onClick={(e) => handleMenuAction(e, () => onAddToPlaylist(playlist.id, [track.id]))}
+                                        className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 truncate"
+                                    >
+                                        {playlist.name}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+                {onRemoveFromPlaylist && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onRemoveFromPlaylist(); }}
+                        className="p-2 rounded-full hover:bg-gray-700/80 text-gray-500 hover:text-white transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        aria-label={`Remove ${track.name} from playlist`}
+                    >
+                        <span className="material-symbols-outlined text-xl">playlist_remove</span>
+                    </button>
+                )}
                 <button
                     onClick={handleTrackEdit}
                     className="p-2 rounded-full hover:bg-gray-700/80 text-gray-500 hover:text-white transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
@@ -104,35 +218,228 @@ const TrackListItem: React.FC<TrackListItemProps> = ({ track, isActive, isPlayin
 };
 
 
-const Library: React.FC<LibraryProps> = ({ tracks, currentTrackId, isPlaying, onTrackSelect, onTrackDelete, onTrackEditRequest }) => {
+const Library: React.FC<LibraryProps> = ({
+  tracks, playlists, selectedPlaylistId, currentTrackId, isPlaying,
+  onTrackSelect, onTracksDelete, onTrackEditRequest, onBulkEditRequest, onSetCoverArt,
+  onSelectPlaylist, onCreatePlaylist, onCreateSmartPlaylist, onEditSmartPlaylist, onRenamePlaylist, onDeletePlaylist, onReorderPlaylist, onAddToPlaylist, onRemoveFromPlaylist,
+  onPlayNext, onAddToQueue, onAddTracksToQueue, searchInputRef
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<TrackFilter[]>([]);
+  const [sort, setSort] = useState<LibrarySort>(() => loadPreference('librarySort', DEFAULT_LIBRARY_SORT));
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set());
+  // The song a Shift-click range starts from: the last one selected or deselected on its own.
+  const [selectionAnchorId, setSelectionAnchorId] = useState<number | null>(null);
+
+  // A selection belongs to the list it was made in.
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setSelectionAnchorId(null);
+  }, [selectedPlaylistId]);
+
+  const searchWordsById = useMemo(() => new Map(tracks.map(track => [track.id, getSearchWords(track)])), [tracks]);
+
+  const handleSortChange = (newSort: LibrarySort) => {
+    setSort(newSort);
+    savePreference('librarySort', newSort);
+  };
+
+  const handleToggleFilter = (filter: TrackFilter) => {
+    setFilters(prev => prev.includes(filter) ? prev.filter(f => f !== filter) : [...prev, filter]);
+  };
+
   if (tracks.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-gray-500 py-16">
         <span className="material-symbols-outlined text-8xl mb-4 text-gray-600">music_off</span>
         <h2 className="text-2xl font-bold text-gray-400">Your Library is Empty</h2>
-        <p className="mt-2 text-center text-gray-500">Drag & drop songs here or use the 'Add Music' button.</p>
+        <p className="mt-2 text-center text-gray-500">Drag & drop songs or whole folders here, or use the 'Add Music' button.</p>
       </div>
     );
   }
 
+  const selectedPlaylist = playlists.find(p => p.id === selectedPlaylistId) || null;
+  const tracksById = new Map<number, Track>(tracks.map(track => [track.id, track]));
+  // Smart playlists are worked out afresh on every render, so they follow edits and play counts live.
+  const listTracks = selectedPlaylist?.smart
+    ? evaluateSmartPlaylist(tracks, selectedPlaylist.smart)
+    : selectedPlaylist
+    ? selectedPlaylist.trackIds.map(id => tracksById.get(id)).filter((track): track is Track => !!track)
+    : sortTracks(tracks, sort);
+  const isNarrowed = query.trim() !== '' || filters.length > 0;
+  const visibleTracks = isNarrowed
+    ? listTracks.filter(track => matchesFilters(track, filters) && matchesSearch(searchWordsById.get(track.id) ?? [], query))
+    : listTracks;
+  const visibleIds = visibleTracks.map(track => track.id);
+  // Only regular playlists have an order and membership of their own to edit.
+  const editablePlaylist = selectedPlaylist && !selectedPlaylist.smart ? selectedPlaylist : null;
+  const regularPlaylists = playlists.filter(playlist => !playlist.smart);
+  // Songs hidden by the search or filters, or since deleted, are left out of bulk actions.
+  const selectedVisibleIds = visibleIds.filter(id => selectedIds.has(id));
+
+  const handleToggleSelect = (index: number, e: React.MouseEvent) => {
+    const id = visibleIds[index];
+    const anchorIndex = selectionAnchorId === null ? -1 : visibleIds.indexOf(selectionAnchorId);
+    if (e.shiftKey && anchorIndex !== -1) {
+      const rangeIds = visibleIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      setSelectedIds(prev => new Set([...prev, ...rangeIds]));
+      return;
+    }
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+    setSelectionAnchorId(id);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectionAnchorId(null);
+  };
+
+  const handleTrackDelete = (id: number) => {
+    const track = tracksById.get(id);
+    if (track && confirm(`Delete "${track.name}" from your library?`)) onTracksDelete([id]);
+  };
+
+  const handleDeleteSelected = () => {
+    const count = selectedVisibleIds.length;
+    if (!confirm(`Delete ${count} ${count === 1 ? 'song' : 'songs'} from your library? This can't be undone.`)) return;
+    onTracksDelete(selectedVisibleIds);
+    clearSelection();
+  };
+
+  const handleSetSelectedCoverArt = (file: File) => {
+    const withCoverCount = selectedVisibleIds.filter(id => tracksById.get(id)?.coverArt).length;
+    if (withCoverCount > 0 && !confirm(`Replace the cover art of ${withCoverCount} ${withCoverCount === 1 ? 'song that already has one' : 'songs that already have one'}?`)) return;
+    onSetCoverArt(selectedVisibleIds, file);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (editablePlaylist && dragIndex !== null && dragIndex !== index) {
+      const trackIds = visibleTracks.map(track => track.id);
+      const [moved] = trackIds.splice(dragIndex, 1);
+      trackIds.splice(dragIndex < index ? index - 1 : index, 0, moved);
+      onReorderPlaylist(editablePlaylist.id, trackIds);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Rows in a playlist can be dragged to reorder; drop positions insert above the target row.
+  const dragHandlersFor = (index: number): TrackListItemProps['dragHandlers'] => ({
+    draggable: true,
+    onDragStart: (e) => {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', String(index));
+      setDragIndex(index);
+    },
+    onDragOver: (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropIndex(index);
+    },
+    onDrop: (e) => handleDrop(e, index),
+    onDragEnd: () => {
+      setDragIndex(null);
+      setDropIndex(null);
+    },
+  });
+
   return (
     <div className="space-y-2">
-      <ul>
-        {tracks.map((track) => {
-          const isActive = track.id === currentTrackId;
-          return (
-            <TrackListItem
-              key={track.id}
-              track={track}
-              isActive={isActive}
-              isPlaying={isPlaying}
-              onTrackSelect={onTrackSelect}
-              onTrackDelete={onTrackDelete}
-              onTrackEditRequest={onTrackEditRequest}
+      <PlaylistBar
+        playlists={playlists}
+        selectedPlaylistId={selectedPlaylistId}
+        selectedPlaylistTrackCount={listTracks.length}
+        selectedPlaylistDuration={selectedPlaylist ? formatTotalDuration(listTracks) : undefined}
+        onSelectPlaylist={onSelectPlaylist}
+        onCreatePlaylist={onCreatePlaylist}
+        onCreateSmartPlaylist={onCreateSmartPlaylist}
+        onEditSmartPlaylist={onEditSmartPlaylist}
+        onRenamePlaylist={onRenamePlaylist}
+        onDeletePlaylist={onDeletePlaylist}
+      />
+      <LibraryToolbar
+        query={query}
+        filters={filters}
+        sort={sort}
+        isSortable={!selectedPlaylist}
+        onQueryChange={setQuery}
+        onToggleFilter={handleToggleFilter}
+        onSortChange={handleSortChange}
+        searchInputRef={searchInputRef}
+      />
+      {selectedPlaylist?.smart && listTracks.length === 0 ? (
+        <div className="flex flex-col items-center justify-center text-gray-500 py-16">
+          <span className="material-symbols-outlined text-6xl mb-4 text-gray-600">auto_awesome</span>
+          <p className="text-center">No songs match this playlist's rules yet.</p>
+        </div>
+      ) : selectedPlaylist && listTracks.length === 0 ? (
+        <div className="flex flex-col items-center justify-center text-gray-500 py-16">
+          <span className="material-symbols-outlined text-6xl mb-4 text-gray-600">queue_music</span>
+          <p className="text-center">This playlist is empty. Add songs from the <span className="material-symbols-outlined align-middle text-lg">more_horiz</span> menu on any song.</p>
+        </div>
+      ) : visibleTracks.length === 0 ? (
+        <div className="flex flex-col items-center justify-center text-gray-500 py-16">
+          <span className="material-symbols-outlined text-6xl mb-4 text-gray-600">search_off</span>
+          <p className="text-center">No songs match your search.</p>
+        </div>
+      ) : (
+        <>
+          {!selectedPlaylist && (
+            <p className="px-3 text-xs text-gray-500">
+              {isNarrowed ? `${visibleTracks.length} of ${tracks.length}` : tracks.length} {tracks.length === 1 ? 'song' : 'songs'} · {formatTotalDuration(visibleTracks)}
+            </p>
+          )}
+          {selectedVisibleIds.length > 0 && (
+            <BulkActionBar
+              selectedCount={selectedVisibleIds.length}
+              visibleCount={visibleIds.length}
+              playlists={regularPlaylists}
+              onSelectAll={() => setSelectedIds(prev => new Set([...prev, ...visibleIds]))}
+              onClearSelection={clearSelection}
+              onAddToQueue={() => onAddTracksToQueue(selectedVisibleIds)}
+              onAddToPlaylist={(playlistId) => onAddToPlaylist(playlistId, selectedVisibleIds)}
+              onSetCoverArt={handleSetSelectedCoverArt}
+              onEdit={() => onBulkEditRequest(selectedVisibleIds)}
+              onDelete={handleDeleteSelected}
             />
-          );
-        })}
-      </ul>
+          )}
+          <ul>
+            {visibleTracks.map((track, index) => {
+              const isActive = track.id === currentTrackId;
+              return (
+                <TrackListItem
+                  key={track.id}
+                  track={track}
+                  isActive={isActive}
+                  isPlaying={isPlaying}
+                  isSelected={selectedIds.has(track.id)}
+                  isSelecting={selectedVisibleIds.length > 0}
+                  playlists={regularPlaylists}
+                  onTrackSelect={(id) => onTrackSelect(id, visibleIds)}
+                  onToggleSelect={(e) => handleToggleSelect(index, e)}
+                  onTrackDelete={handleTrackDelete}
+                  onTrackEditRequest={onTrackEditRequest}
+                  onAddToPlaylist={onAddToPlaylist}
+                  onPlayNext={onPlayNext}
+                  onAddToQueue={onAddToQueue}
+                  onRemoveFromPlaylist={editablePlaylist ? () => onRemoveFromPlaylist(editablePlaylist.id, track.id) : undefined}
+                  dragHandlers={editablePlaylist && !isNarrowed ? dragHandlersFor(index) : undefined}
+                  isDropTarget={dragIndex !== null && dropIndex === index && dragIndex !== index}
+                />
+              );
+            })}
+          </ul>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,101 @@
+import React from 'react';
+import { LibrarySort, SortKey, TrackFilter } from '../services/search';
+
+interface LibraryToolbarProps {
+  query: string;
+  filters: TrackFilter[];
+  sort: LibrarySort;
+  // Playlists keep their own hand-made order, so sorting is hidden there.
+  isSortable: boolean;
+  onQueryChange: (query: string) => void;
+  onToggleFilter: (filter: TrackFilter) => void;
+  onSortChange: (sort: LibrarySort) => void;
+  searchInputRef?: React.Ref<HTMLInputElement>;
+}
+
+const FILTERS: { value: TrackFilter; label: string; icon: string }[] = [
+  { value: 'hasCover', label: 'Has cover', icon: 'image' },
+  { value: 'hasVideo', label: 'Has video', icon: 'movie' },
+  { value: 'hasLyrics', label: 'Has lyrics', icon: 'lyrics' },
+];
+
+export const SORT_COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'artist', label: 'Artist' },
+  { key: 'album', label: 'Album' },
+  { key: 'dateAdded', label: 'Date added' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'playCount', label: 'Plays' },
+  { key: 'lastPlayed', label: 'Last played' },
+  { key: 'rating', label: 'Rating' },
+];
+
+const LibraryToolbar: React.FC<LibraryToolbarProps> = ({ query, filters, sort, isSortable, onQueryChange, onToggleFilter, onSortChange, searchInputRef }) => {
+  const handleSortClick = (key: SortKey) => {
+    if (sort.key === key) {
+      onSortChange({ key, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      // Text columns read best A to Z; numbers are most useful biggest/newest first.
+      const isText = key === 'title' || key === 'artist' || key === 'album';
+      onSortChange({ key, direction: isText ? 'asc' : 'desc' });
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="relative">
+        <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">search</span>
+        <input
+          ref={searchInputRef}
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search songs, artists or albums"
+          className="w-full pl-10 pr-4 py-2 rounded-full bg-gray-800 text-white placeholder-gray-500 border border-transparent focus:outline-none focus:border-spotify-green"
+          aria-label="Search library"
+        />
+      </div>
+      <div className="flex items-center flex-wrap gap-2">
+        {FILTERS.map(filter => {
+          const isActive = filters.includes(filter.value);
+          return (
+            <button
+              key={filter.value}
+              onClick={() => onToggleFilter(filter.value)}
+              className={`flex items-center px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+                isActive ? 'bg-spotify-green text-black' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+              aria-pressed={isActive}
+            >
+              <span className="material-symbols-outlined text-base mr-1">{filter.icon}</span>
+              {filter.label}
+            </button>
+          );
+        })}
+      </div>
+      {isSortable && (
+        <div className="flex items-center flex-wrap gap-x-4 gap-y-1 text-xs font-semibold uppercase tracking-wider border-b border-gray-800 pb-2">
+          <span className="text-gray-500">Sort by</span>
+          {SORT_COLUMNS.map(column => {
+            const isActive = sort.key === column.key;
+            return (
+              <button
+                key={column.key}
+                onClick={() => handleSortClick(column.key)}
+                className={`flex items-center uppercase transition-colors ${isActive ? 'text-spotify-green' : 'text-gray-400 hover:text-white'}`}
+                aria-label={`Sort by ${column.label}`}
+              >
+                {column.label}
+                {isActive && (
+                  <span className="material-symbols-outlined text-base">{sort.direction === 'asc' ? 'arrow_upward' : 'arrow_downward'}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryToolbar;
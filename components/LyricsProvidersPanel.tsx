@@ -0,0 +1,64 @@
+import React from 'react';
+import { LyricsProviderId, LyricsProviderSettings, getProviderOrder, LYRICS_PROVIDERS, DEFAULT_LYRICS_PROVIDER_SETTINGS } from '../services/lyricsProviders';
+
+interface LyricsProvidersPanelProps {
+  settings: LyricsProviderSettings;
+  onChange: (settings: LyricsProviderSettings) => void;
+}
+
+const LyricsProvidersPanel: React.FC<LyricsProvidersPanelProps> = ({ settings, onChange }) => {
+  // Show every provider, enabled or not, in the saved order.
+  const order = getProviderOrder({ ...settings, disabled: [] }).map(provider => provider.id);
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange({ ...settings, order: next });
+  };
+
+  const toggle = (id: LyricsProviderId, enabled: boolean) => {
+    const disabled = enabled ? settings.disabled.filter(d => d !== id) : [...settings.disabled, id];
+    onChange({ ...settings, order, disabled });
+  };
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400">Lyrics sources</h3>
+        <button onClick={() => onChange(DEFAULT_LYRICS_PROVIDER_SETTINGS)} className="text-xs text-gray-400 hover:text-white">Reset</button>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">Tried from top to bottom; the first source with lyrics for a song is used.</p>
+      <ol className="space-y-1">
+        {order.map((id, index) => {
+          const provider = LYRICS_PROVIDERS[id];
+          const isEnabled = !settings.disabled.includes(id);
+          return (
+            <li key={id} className="flex items-center p-2 rounded-md bg-gray-900/50">
+              <input
+                type="checkbox"
+                checked={isEnabled}
+                onChange={(e) => toggle(id, e.target.checked)}
+                className="accent-spotify-green mr-3"
+                aria-label={`Use ${provider.label}`}
+              />
+              <div className={`flex-grow min-w-0 ${isEnabled ? '' : 'opacity-50'}`}>
+                <p className="text-sm text-white">{provider.label}</p>
+                <p className="text-xs text-gray-400 truncate">{provider.description}</p>
+              </div>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move up">
+                <span className="material-symbols-outlined">keyboard_arrow_up</span>
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === order.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move down">
+                <span className="material-symbols-outlined">keyboard_arrow_down</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+};
+
+export default LyricsProvidersPanel;
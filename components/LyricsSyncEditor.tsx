@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Track } from '../types';
+import { LyricLine, findActiveLyricIndex, formatLrc, formatLrcTimestamp } from '../services/lyrics';
+
+interface SyncLine {
+  text: string;
+  // Null until the line has been stamped.
+  time: number | null;
+}
+
+interface LyricsSyncEditorProps {
+  track: Track;
+  lines: LyricLine[];
+  isSynced: boolean;
+  // False once playback has moved on to another song; taps and seeks would land in the wrong audio.
+  isTrackPlaying: boolean;
+  currentTime: number;
+  // Read at the moment of a tap; `currentTime` only updates a few times a second.
+  getCurrentTime: () => number;
+  onSeek: (time: number) => void;
+  onSave: (lrc: string) => void;
+  onClose: () => void;
+}
+
+const NUDGE_SECONDS = 0.1;
+const STAMP_KEY = 'Enter';
+
+const LyricsSyncEditor: React.FC<LyricsSyncEditorProps> = ({
+  track, lines: initialLines, isSynced, isTrackPlaying, currentTime, getCurrentTime, onSeek, onSave, onClose
+}) => {
+  const [lines, setLines] = useState<SyncLine[]>(() => isSynced
+    ? initialLines.map(line => ({ text: line.text, time: line.time }))
+    // Stanza breaks in plain text aren't worth a tap each.
+    : initialLines.filter(line => line.text).map(line => ({ text: line.text, time: null })));
+  const [nextIndex, setNextIndex] = useState(() => isSynced ? initialLines.length : 0);
+  // Seconds added to every stamp; positive shows lines later.
+  const [offset, setOffset] = useState(0);
+  const [isDirty, setIsDirty] = useState(false);
+  const nextLineRef = useRef<HTMLLIElement>(null);
+
+  const effectiveTime = (line: SyncLine) => line.time === null ? null : Math.max(0, line.time + offset);
+  // Unstamped lines sort last, so the highlight stops at the last stamped line.
+  const activeIndex = !isTrackPlaying ? -1 : findActiveLyricIndex(lines.map(line => ({ text: line.text, time: effectiveTime(line) ?? Infinity })), currentTime);
+  const stampedCount = lines.filter(line => line.time !== null).length;
+
+  const updateLines = (update: (prev: SyncLine[]) => SyncLine[]) => {
+    setLines(update);
+    setIsDirty(true);
+  };
+
+  const stamp = () => {
+    if (!isTrackPlaying || nextIndex >= lines.length) return;
+    // The offset is applied on top, so store the raw tap time without it.
+    const time = Math.max(0, getCurrentTime() - offset);
+    updateLines(prev => prev.map((line, i) => i === nextIndex ? { ...line, time } : line));
+    setNextIndex(index => index + 1);
+  };
+
+  const nudge = (index: number, delta: number) => {
+    updateLines(prev => prev.map((line, i) => i === index && line.time !== null ? { ...line, time: Math.max(0, line.time + delta) } : line));
+  };
+
+  const clearStamp = (index: number) => {
+    updateLines(prev => prev.map((line, i) => i === index ? { ...line, time: null } : line));
+    setNextIndex(index);
+  };
+
+  const changeOffset = (delta: number) => {
+    setOffset(value => Math.round((value + delta) * 100) / 100);
+    setIsDirty(true);
+  };
+
+  const close = () => {
+    if (isDirty && !window.confirm('Discard your timing changes?')) return;
+    onClose();
+  };
+
+  const toLrc = () => {
+    const timed = lines
+      .filter(line => line.time !== null)
+      .map(line => ({ text: line.text, time: effectiveTime(line)! }));
+    return formatLrc(timed, { title: track.name, artist: track.artist, album: track.album });
+  };
+
+  const handleSave = () => {
+    const unstamped = lines.length - stampedCount;
+    if (stampedCount === 0) {
+      alert('Tap in at least one line before saving.');
+      return;
+    }
+    if (unstamped > 0 && !window.confirm(`${unstamped} line${unstamped === 1 ? ' has' : 's have'} no timestamp and will be left out. Save anyway?`)) return;
+    onSave(toLrc());
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([toLrc()], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${[track.artist, track.name].filter(Boolean).join(' - ').replace(/[\\/:*?"<>|]/g, '_')}.lrc`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  // Refs so the window listener below always sees the latest state.
+  const stampRef = useRef(stamp);
+  const closeRef = useRef(close);
+  stampRef.current = stamp;
+  closeRef.current = close;
+
+  // Captured ahead of the global shortcuts: Enter stamps, Escape leaves sync mode
+  // instead of closing the whole view.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key !== STAMP_KEY && e.key !== 'Escape') return;
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === STAMP_KEY) {
+        if (!e.repeat) stampRef.current();
+      } else {
+        closeRef.current();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  useEffect(() => {
+    nextLineRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [nextIndex]);
+
+  return (
+    <div className="h-full flex flex-col text-left">
+      <div className="flex-shrink-0 flex flex-wrap items-center gap-2 mb-2">
+        <button
+          onClick={stamp}
+          disabled={!isTrackPlaying || nextIndex >= lines.length}
+          className="px-4 py-2 rounded-full bg-spotify-green text-black font-semibold text-sm hover:scale-105 transition-transform disabled:opacity-50 disabled:hover:scale-100"
+        >
+          Tap line (Enter)
+        </button>
+        <div className="flex items-center text-xs text-gray-300 bg-white/10 rounded-full">
+          <button onClick={() => changeOffset(-NUDGE_SECONDS)} className="px-2 py-1 hover:text-white" aria-label="Shift all lines earlier">−</button>
+          <span className="tabular-nums" title="Shift every line by this much">Offset {offset >= 0 ? '+' : ''}{offset.toFixed(2)}s</span>
+          <button onClick={() => changeOffset(NUDGE_SECONDS)} className="px-2 py-1 hover:text-white" aria-label="Shift all lines later">+</button>
+        </div>
+        <span className="text-xs text-gray-400">{stampedCount}/{lines.length} timed</span>
+        <div className="flex-grow" />
+        <button onClick={handleExport} disabled={stampedCount === 0} className="px-3 py-1 rounded-full text-xs text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-50">Export .lrc</button>
+        <button onClick={close} className="px-3 py-1 rounded-full text-xs text-gray-300 hover:text-white hover:bg-white/10">Cancel</button>
+        <button onClick={handleSave} className="px-3 py-1 rounded-full text-xs font-semibold bg-white text-black hover:bg-gray-200">Save</button>
+      </div>
+      {!isTrackPlaying && (
+        <p className="flex-shrink-0 mb-2 text-xs text-yellow-300">
+          "{track.name}" is no longer playing. Your timings are kept; play it again to keep tapping, or save what you have.
+        </p>
+      )}
+      <ul className="flex-grow min-h-0 overflow-y-auto space-y-1 no-scrollbar">
+        {lines.map((line, index) => {
+          const time = effectiveTime(line);
+          const isNext = index === nextIndex;
+          return (
+            <li
+              key={index}
+              ref={isNext ? nextLineRef : null}
+              className={`flex items-center gap-2 px-2 py-1 rounded-md group ${isNext ? 'bg-white/10 ring-1 ring-spotify-green' : ''}`}
+            >
+              <button
+                onClick={() => time !== null && onSeek(time)}
+                disabled={time === null || !isTrackPlaying}
+                className="w-20 flex-shrink-0 text-xs tabular-nums text-gray-400 hover:text-white disabled:hover:text-gray-400 text-left"
+                title={time === null ? undefined : 'Play from here'}
+              >
+                {time === null ? '--:--.--' : formatLrcTimestamp(time).slice(1, -1)}
+              </button>
+              <button
+                onClick={() => setNextIndex(index)}
+                className={`flex-grow min-w-0 truncate text-left ${index === activeIndex ? 'text-white font-bold' : 'text-gray-400'}`}
+                title="Tap this line next"
+              >
+                {line.text || '♪'}
+              </button>
+              {line.time !== null && (
+                <div className="flex-shrink-0 flex items-center text-gray-400 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  <button onClick={() => nudge(index, -NUDGE_SECONDS)} className="px-1.5 hover:text-white" aria-label="Nudge earlier">−</button>
+                  <button onClick={() => nudge(index, NUDGE_SECONDS)} className="px-1.5 hover:text-white" aria-label="Nudge later">+</button>
+                  <button onClick={() => clearStamp(index)} className="px-1 hover:text-white" aria-label="Clear timestamp">
+                    <span className="material-symbols-outlined text-base">close</span>
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default LyricsSyncEditor;
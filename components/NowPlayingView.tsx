@@ -1,95 +1,87 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Track } from '../types';
 import { ChevronDownIcon } from './icons';
-import { GoogleGenAI } from "@google/genai";
-
-// AI-POWERED LYRICS FEATURE: Add Gemini API integration
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  console.warn("API_KEY is not set. Lyrics generation will be disabled.");
-}
-
-const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
-
-interface LyricLine {
-  time: number;
-  text: string;
-}
-
-const parseLyrics = (lyricText: string): LyricLine[] => {
-    if (!lyricText) return [];
-    const lines = lyricText.split('\n');
-    const parsed: LyricLine[] = [];
-    const regex = /\[(\d{2}):(\d{2}):(\d{2})\.(\d{3})\]\s*(.*)/;
-
-    for (const line of lines) {
-        const match = line.match(regex);
-        if (match) {
-            const [, minutes, seconds, ms, text] = match;
-            const time = parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + parseInt(ms, 10) / 1000;
-            if (text.trim()) {
-               parsed.push({ time, text: text.trim() });
-            }
-        }
-    }
-    return parsed;
-};
-
+import QueuePanel from './QueuePanel';
+import LyricsSyncEditor from './LyricsSyncEditor';
+import WaveformSeekBar from './WaveformSeekBar';
+import { LyricLine, parseLrc, findActiveLyricIndex } from '../services/lyrics';
+import { LYRICS_PROVIDERS, LyricsProviderId, LyricsProviderSettings, resolveLyrics } from '../services/lyricsProviders';
+import { CachedLyrics } from '../types';
 
 interface PlayerProps {
   track: Track;
   isPlaying: boolean;
   duration: number;
   currentTime: number;
+  waveform: Uint8Array | null;
   volume: number;
   onPlayPause: () => void;
   onNext: () => void;
   onPrev: () => void;
   onSeek: (time: number) => void;
+  getCurrentTime: () => number;
   onVolumeChange: (volume: number) => void;
+  upNext: Track[];
+  queuePriorityCount: number;
+  onRemoveFromQueue: (index: number) => void;
+  onMoveInQueue: (from: number, to: number) => void;
+  lyricsProviderSettings: LyricsProviderSettings;
+  onLyricsCached: (trackId: number, lyrics: CachedLyrics) => void;
+  onLyricsSaved: (trackId: number, lrc: string) => void;
   onClose: () => void;
 }
 
-const NowPlayingView: React.FC<PlayerProps> = ({ track, isPlaying, duration, currentTime, onPlayPause, onNext, onPrev, onSeek, onClose }) => {
+const NowPlayingView: React.FC<PlayerProps> = ({
+    track, isPlaying, duration, currentTime, waveform, onPlayPause, onNext, onPrev, onSeek, getCurrentTime,
+    upNext, queuePriorityCount, onRemoveFromQueue, onMoveInQueue, lyricsProviderSettings, onLyricsCached, onLyricsSaved, onClose
+}) => {
     const [coverArtUrl, setCoverArtUrl] = useState('');
     const [videoUrl, setVideoUrl] = useState('');
     const [lyrics, setLyrics] = useState<LyricLine[]>([]);
+    const [isLyricsSynced, setIsLyricsSynced] = useState(true);
     const [lyricsStatus, setLyricsStatus] = useState<'loading' | 'success' | 'error' | 'idle'>('idle');
     const [currentLyricIndex, setCurrentLyricIndex] = useState(-1);
+    const [isQueueVisible, setIsQueueVisible] = useState(false);
+    // Pinned to the song it was opened for, so timing work survives playback moving on.
+    const [lyricsSync, setLyricsSync] = useState<{ track: Track; lines: LyricLine[]; isSynced: boolean } | null>(null);
+    const [lyricsProviderId, setLyricsProviderId] = useState<LyricsProviderId | null>(null);
+    // Bumped by the regenerate button to ask cached providers for fresh lyrics.
+    const [lyricsRefreshCount, setLyricsRefreshCount] = useState(0);
+    const lyricsRefreshHandledRef = useRef(0);
 
     const videoRef = useRef<HTMLVideoElement>(null);
     const activeLyricRef = useRef<HTMLLIElement>(null);
     const lyricsContainerRef = useRef<HTMLUListElement>(null);
 
-    // Effect for fetching lyrics
+    // Effect for fetching lyrics from the configured providers, in order.
     useEffect(() => {
-        if (!track || !ai) return;
+        const refresh = lyricsRefreshCount !== lyricsRefreshHandledRef.current;
+        lyricsRefreshHandledRef.current = lyricsRefreshCount;
+        let isCancelled = false;
 
-        const generateLyrics = async () => {
+        const loadLyrics = async () => {
             setLyricsStatus('loading');
             setLyrics([]);
             setCurrentLyricIndex(-1);
-            try {
-                const prompt = `Generate karaoke-style lyrics for the song titled "${track.name}". Provide timestamps in the format [mm:ss.SSS] for each line. Ensure every line with text has a timestamp.`;
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: prompt,
-                });
-                const parsed = parseLyrics(response.text);
-                if (parsed.length > 0) {
-                    setLyrics(parsed);
-                    setLyricsStatus('success');
-                } else {
-                    setLyricsStatus('error');
-                }
-            } catch (error) {
-                console.error("Error generating lyrics:", error);
+            const resolved = await resolveLyrics(track, lyricsProviderSettings, refresh);
+            if (isCancelled) return;
+            if (!resolved) {
+                setLyricsProviderId(null);
                 setLyricsStatus('error');
+                return;
             }
+            const parsed = parseLrc(resolved.text);
+            setLyrics(parsed.lines);
+            setIsLyricsSynced(parsed.isSynced);
+            setLyricsProviderId(resolved.providerId);
+            setLyricsStatus('success');
+            if (resolved.newCache) onLyricsCached(track.id, resolved.newCache);
         };
 
-        generateLyrics();
-    }, [track]);
+        loadLyrics();
+        return () => { isCancelled = true; };
+        // Not keyed on the cache itself: saving a fresh result mustn't trigger another fetch.
+    }, [track.id, track.name, track.artist, track.lyrics, lyricsProviderSettings, lyricsRefreshCount]);
 
     // Effect for handling media URLs
     useEffect(() => {
@@ -109,7 +101,7 @@ const NowPlayingView: React.FC<PlayerProps> = ({ track, isPlaying, duration, cur
             if (artUrl) URL.revokeObjectURL(artUrl);
             if (vidUrl) URL.revokeObjectURL(vidUrl);
         }
-    }, [track]);
+    }, [track.coverArt, track.video]);
 
 
     // Effect for controlling video playback
@@ -135,14 +127,11 @@ const NowPlayingView: React.FC<PlayerProps> = ({ track, isPlaying, duration, cur
 
     // Effect for updating lyric highlighting
     useEffect(() => {
-        const newIndex = lyrics.findIndex((line, index) => {
-            const nextLine = lyrics[index + 1];
-            return currentTime >= line.time && (!nextLine || currentTime < nextLine.time);
-        });
+        const newIndex = isLyricsSynced ? findActiveLyricIndex(lyrics, currentTime) : -1;
         if (newIndex !== currentLyricIndex) {
             setCurrentLyricIndex(newIndex);
         }
-    }, [currentTime, lyrics, currentLyricIndex]);
+    }, [currentTime, lyrics, isLyricsSynced, currentLyricIndex]);
 
     // Effect for scrolling active lyric into view
     useEffect(() => {
@@ -160,15 +149,23 @@ const NowPlayingView: React.FC<PlayerProps> = ({ track, isPlaying, duration, cur
         const seconds = Math.floor(time % 60).toString().padStart(2, '0');
         return `${minutes}:${seconds}`;
     };
-    const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
 
     const LyricsDisplay = () => {
         if (lyricsStatus === 'loading') {
-            return <div className="text-gray-400 text-center animate-pulse">Generating lyrics...</div>;
+            return <div className="text-gray-400 text-center animate-pulse">Loading lyrics...</div>;
         }
         if (lyricsStatus === 'error' || lyrics.length === 0) {
             return <div className="text-gray-500 text-center">Lyrics not available for this track.</div>;
         }
+        if (!isLyricsSynced) {
+            return (
+                <ul className="h-full overflow-y-auto text-center space-y-2 no-scrollbar">
+                    {lyrics.map((line, index) => (
+                        <li key={index} className={line.text ? 'text-gray-200 text-lg' : 'h-4'}>{line.text}</li>
+                    ))}
+                </ul>
+            );
+        }
         return (
             <ul ref={lyricsContainerRef} className="h-full overflow-y-auto text-center space-y-4 scroll-smooth no-scrollbar">
                 {/* Padding elements to center the first and last lines */}
@@ -185,7 +182,7 @@ const NowPlayingView: React.FC<PlayerProps> = ({ track, isPlaying, duration, cur
                                 : 'text-gray-400/80 font-medium text-lg md:text-xl'
                             }`}
                         >
-                            {line.text}
+                            {line.text || '♪'}
                         </li>
                     );
                 })}
@@ -216,7 +213,14 @@ const NowPlayingView: React.FC<PlayerProps> = ({ track, isPlaying, duration, cur
                     <div className="text-center">
                         <p className="text-sm font-medium text-gray-300 uppercase tracking-widest">Now Playing</p>
                     </div>
-                    <div className="w-11 h-11"/>
+                    <button
+                        onClick={() => setIsQueueVisible(visible => !visible)}
+                        className={`p-2 rounded-full hover:bg-white/10 transition-colors ${isQueueVisible ? 'text-spotify-green' : ''}`}
+                        aria-label={isQueueVisible ? 'Show lyrics' : 'Show queue'}
+                        aria-pressed={isQueueVisible}
+                    >
+                        <span className="material-symbols-outlined text-3xl">queue_music</span>
+                    </button>
                 </header>
                 
                 {/* Main Content: Responsive Layout */}
@@ -236,25 +240,64 @@ const NowPlayingView: React.FC<PlayerProps> = ({ track, isPlaying, duration, cur
                     <div className="w-full md:w-1/2 flex flex-col justify-between h-full max-h-full min-h-0 text-center md:text-left">
                         <div className="flex-shrink-0">
                             <h2 className="text-3xl lg:text-4xl font-bold text-white truncate">{track.name}</h2>
-                            <p className="text-lg text-gray-300 mt-1">Local File</p>
+                            <p className="text-lg text-gray-300 mt-1 truncate">{[track.artist, track.album].filter(Boolean).join(' — ') || 'Local File'}</p>
                         </div>
                         <div className="flex-grow my-4 h-32 md:h-auto min-h-0">
-                            <LyricsDisplay />
+                            {isQueueVisible ? (
+                                <QueuePanel
+                                    upNext={upNext}
+                                    priorityCount={queuePriorityCount}
+                                    onRemove={onRemoveFromQueue}
+                                    onMove={onMoveInQueue}
+                                />
+                            ) : lyricsSync ? (
+                                <LyricsSyncEditor
+                                    track={lyricsSync.track}
+                                    lines={lyricsSync.lines}
+                                    isSynced={lyricsSync.isSynced}
+                                    isTrackPlaying={lyricsSync.track.id === track.id}
+                                    currentTime={currentTime}
+                                    getCurrentTime={getCurrentTime}
+                                    onSeek={onSeek}
+                                    onSave={(lrc) => {
+                                        setLyricsSync(null);
+                                        onLyricsSaved(lyricsSync.track.id, lrc);
+                                    }}
+                                    onClose={() => setLyricsSync(null)}
+                                />
+                            ) : (
+                                <div className="h-full flex flex-col">
+                                    <div className="flex-grow min-h-0">
+                                        <LyricsDisplay />
+                                    </div>
+                                    {lyricsStatus !== 'loading' && (
+                                        <div className="flex-shrink-0 flex items-center justify-center md:justify-start space-x-2 mt-2 text-xs text-gray-400">
+                                            {lyricsProviderId && LYRICS_PROVIDERS[lyricsProviderId].isCached && <span>Lyrics from {LYRICS_PROVIDERS[lyricsProviderId].label}</span>}
+                                            {(lyricsStatus === 'error' || (lyricsProviderId && LYRICS_PROVIDERS[lyricsProviderId].isCached)) && (
+                                                <button
+                                                    onClick={() => setLyricsRefreshCount(count => count + 1)}
+                                                    className="flex items-center space-x-1 px-2 py-1 rounded-full hover:bg-white/10 hover:text-white transition-colors"
+                                                >
+                                                    <span className="material-symbols-outlined text-base">refresh</span>
+                                                    <span>{lyricsStatus === 'error' ? 'Try again' : 'Regenerate'}</span>
+                                                </button>
+                                            )}
+                                            {lyrics.length > 0 && (
+                                                <button
+                                                    onClick={() => setLyricsSync({ track, lines: lyrics, isSynced: isLyricsSynced })}
+                                                    className="flex items-center space-x-1 px-2 py-1 rounded-full hover:bg-white/10 hover:text-white transition-colors"
+                                                >
+                                                    <span className="material-symbols-outlined text-base">timer</span>
+                                                    <span>{isLyricsSynced ? 'Fix timing' : 'Sync lyrics'}</span>
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                         </div>
                         <div className="w-full max-w-lg mx-auto md:mx-0">
-                            <div className="w-full bg-white/20 rounded-full h-1.5 group relative">
-                                <div className="bg-spotify-green h-1.5 rounded-full" style={{ width: `${progress}%` }}></div>
-                                <div className="absolute -top-1 h-3.5 w-3.5 bg-white rounded-full transition-opacity opacity-0 group-hover:opacity-100" style={{ left: `calc(${progress}% - 7px)` }}></div>
-                                <input
-                                    type="range"
-                                    min="0"
-                                    max={duration || 1}
-                                    value={currentTime}
-                                    onChange={(e) => onSeek(Number(e.target.value))}
-                                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                                    aria-label="Seek slider"
-                                />
-                            </div>
+                            <WaveformSeekBar peaks={waveform} currentTime={currentTime} duration={duration} onSeek={onSeek} className="h-12" />
                             <div className="flex justify-between text-xs font-medium mt-1.5 text-gray-300">
                                 <span>{formatTime(currentTime)}</span>
                                 <span>{formatTime(duration)}</span>
@@ -1,18 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { Track } from '../types';
+import { RepeatMode } from '../services/queue';
 import { ChevronUpIcon, BluetoothIcon, BluetoothConnectedIcon } from './icons';
+import WaveformSeekBar from './WaveformSeekBar';
 
 interface PlayerProps {
   track: Track | null;
   isPlaying: boolean;
   duration: number;
   currentTime: number;
+  waveform: Uint8Array | null;
   volume: number;
   onPlayPause: () => void;
   onNext: () => void;
   onPrev: () => void;
   onSeek: (time: number) => void;
   onVolumeChange: (volume: number) => void;
+  isShuffled: boolean;
+  repeatMode: RepeatMode;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
   onExpand: () => void;
   isBluetoothSupported: boolean;
   isBluetoothConnected: boolean;
@@ -20,16 +27,19 @@ interface PlayerProps {
 }
 
 const Player: React.FC<PlayerProps> = ({ 
-    track, isPlaying, duration, currentTime, volume, 
+    track, isPlaying, duration, currentTime, waveform, volume, 
     onPlayPause, onNext, onPrev, onSeek, onVolumeChange, onExpand,
+    isShuffled, repeatMode, onToggleShuffle, onCycleRepeat,
     isBluetoothSupported, isBluetoothConnected, onBluetoothConnect 
 }) => {
   const [coverArtUrl, setCoverArtUrl] = useState('');
 
+  // The bar only shows a small square, so the thumbnail will do when there is one.
+  const cover = track?.coverThumbnail ?? track?.coverArt;
   useEffect(() => {
       let url = '';
-      if (track?.coverArt) {
-          url = URL.createObjectURL(track.coverArt);
+      if (cover) {
+          url = URL.createObjectURL(cover);
           setCoverArtUrl(url);
       } else {
           setCoverArtUrl('');
@@ -39,7 +49,7 @@ const Player: React.FC<PlayerProps> = ({
               URL.revokeObjectURL(url);
           }
       };
-  }, [track]);
+  }, [cover]);
 
   const formatTime = (time: number) => {
     if (isNaN(time) || time === 0) return '0:00';
@@ -48,8 +58,6 @@ const Player: React.FC<PlayerProps> = ({
     return `${minutes}:${seconds}`;
   };
 
-  const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
-  
   const handleVolumeToggle = () => {
     onVolumeChange(volume > 0 ? 0 : 0.75);
   };
@@ -76,7 +84,7 @@ const Player: React.FC<PlayerProps> = ({
             </div>
             <div>
               <p className="font-semibold text-xs md:text-sm truncate text-white">{track?.name || 'No song playing'}</p>
-              {track && <p className="text-xs text-gray-400">Local File</p>}
+              {track && <p className="text-xs text-gray-400 truncate">{track.artist || 'Local File'}</p>}
             </div>
         </button>
       </div>
@@ -84,6 +92,14 @@ const Player: React.FC<PlayerProps> = ({
       {/* Playback Controls & Seekbar */}
       <div className="flex flex-col items-center justify-center w-full col-span-2 md:col-span-1 row-start-2 md:row-start-1 md:col-start-2">
         <div className="flex items-center space-x-4 md:space-x-6">
+          <button
+            onClick={onToggleShuffle}
+            className={`transition-colors ${isShuffled ? 'text-spotify-green hover:text-green-400' : 'text-gray-400 hover:text-white'}`}
+            aria-label={isShuffled ? 'Disable shuffle' : 'Enable shuffle'}
+            aria-pressed={isShuffled}
+          >
+            <span className="material-symbols-outlined text-xl md:text-2xl">shuffle</span>
+          </button>
           <button onClick={onPrev} disabled={!track} className="text-gray-400 hover:text-white transition-colors disabled:text-gray-600 disabled:cursor-not-allowed">
             <span className="material-symbols-outlined text-2xl md:text-3xl">skip_previous</span>
           </button>
@@ -98,22 +114,18 @@ const Player: React.FC<PlayerProps> = ({
           <button onClick={onNext} disabled={!track} className="text-gray-400 hover:text-white transition-colors disabled:text-gray-600 disabled:cursor-not-allowed">
             <span className="material-symbols-outlined text-2xl md:text-3xl">skip_next</span>
           </button>
+          <button
+            onClick={onCycleRepeat}
+            className={`transition-colors ${repeatMode !== 'off' ? 'text-spotify-green hover:text-green-400' : 'text-gray-400 hover:text-white'}`}
+            aria-label={repeatMode === 'off' ? 'Repeat all' : repeatMode === 'all' ? 'Repeat one' : 'Disable repeat'}
+            title={repeatMode === 'off' ? 'Repeat off' : repeatMode === 'all' ? 'Repeat all' : 'Repeat one'}
+          >
+            <span className="material-symbols-outlined text-xl md:text-2xl">{repeatMode === 'one' ? 'repeat_one' : 'repeat'}</span>
+          </button>
         </div>
         <div className="hidden md:flex items-center space-x-2 w-full mt-2">
             <span className="text-xs text-gray-400 w-10 text-center">{formatTime(currentTime)}</span>
-            <div className="w-full bg-gray-700 rounded-full h-1 group relative">
-                <div className="bg-spotify-green h-1 rounded-full" style={{ width: `${progress}%` }}></div>
-                <input
-                    type="range"
-                    min="0"
-                    max={duration || 1}
-                    value={currentTime}
-                    onChange={(e) => onSeek(Number(e.target.value))}
-                    className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
-                    disabled={!track}
-                    aria-label="Seek slider"
-                />
-            </div>
+            <WaveformSeekBar peaks={waveform} currentTime={currentTime} duration={duration} onSeek={onSeek} disabled={!track} className="h-8" />
             <span className="text-xs text-gray-400 w-10 text-center">{formatTime(duration)}</span>
         </div>
       </div>
@@ -150,19 +162,7 @@ const Player: React.FC<PlayerProps> = ({
       {/* Mobile Seekbar */}
       <div className="md:hidden flex items-center space-x-2 w-full col-span-2 row-start-2 -mt-2">
          <span className="text-[10px] text-gray-400 w-9 text-center">{formatTime(currentTime)}</span>
-          <div className="w-full bg-gray-700 rounded-full h-1 group relative">
-              <div className="bg-spotify-green h-1 rounded-full" style={{ width: `${progress}%` }}></div>
-              <input
-                  type="range"
-                  min="0"
-                  max={duration || 1}
-                  value={currentTime}
-                  onChange={(e) => onSeek(Number(e.target.value))}
-                  className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
-                  disabled={!track}
-                  aria-label="Seek slider"
-              />
-          </div>
+          <WaveformSeekBar peaks={waveform} currentTime={currentTime} duration={duration} onSeek={onSeek} disabled={!track} className="h-6" />
           <span className="text-[10px] text-gray-400 w-9 text-center">{formatTime(duration)}</span>
       </div>
     </div>
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Playlist } from '../types';
+import { EditIcon } from './icons';
+
+interface PlaylistBarProps {
+  playlists: Playlist[];
+  selectedPlaylistId: number | null;
+  // Songs in the selected playlist, and their combined length, e.g. "1 hr 5 min".
+  selectedPlaylistTrackCount?: number;
+  selectedPlaylistDuration?: string;
+  onSelectPlaylist: (id: number | null) => void;
+  onCreatePlaylist: (name: string) => void;
+  onCreateSmartPlaylist: () => void;
+  onEditSmartPlaylist: (id: number) => void;
+  onRenamePlaylist: (id: number, name: string) => void;
+  onDeletePlaylist: (id: number) => void;
+}
+
+const chipClassName = (isActive: boolean) =>
+  `px-4 py-1.5 rounded-full text-sm font-semibold whitespace-nowrap transition-colors ${
+    isActive ? 'bg-white text-black' : 'bg-gray-800 text-gray-200 hover:bg-gray-700'
+  }`;
+
+const PlaylistBar: React.FC<PlaylistBarProps> = ({
+  playlists, selectedPlaylistId, selectedPlaylistTrackCount = 0, selectedPlaylistDuration,
+  onSelectPlaylist, onCreatePlaylist, onCreateSmartPlaylist, onEditSmartPlaylist, onRenamePlaylist, onDeletePlaylist
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+
+  const selectedPlaylist = playlists.find(p => p.id === selectedPlaylistId) || null;
+
+  const handleCreateSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (nameInput.trim()) {
+      onCreatePlaylist(nameInput.trim());
+    }
+    setNameInput('');
+    setIsCreating(false);
+  };
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedPlaylist && nameInput.trim()) {
+      onRenamePlaylist(selectedPlaylist.id, nameInput.trim());
+    }
+    setNameInput('');
+    setIsRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (selectedPlaylist && confirm(`Delete the playlist "${selectedPlaylist.name}"? Its songs stay in your library.`)) {
+      onDeletePlaylist(selectedPlaylist.id);
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-4">
+      <div className="flex items-center space-x-2 overflow-x-auto no-scrollbar pb-1">
+        <button onClick={() => onSelectPlaylist(null)} className={chipClassName(selectedPlaylistId === null)}>
+          All songs
+        </button>
+        {playlists.map(playlist => (
+          <button key={playlist.id} onClick={() => onSelectPlaylist(playlist.id)} className={`flex items-center ${chipClassName(playlist.id === selectedPlaylistId)}`}>
+            {playlist.smart && <span className="material-symbols-outlined text-base mr-1" aria-label="Smart playlist">auto_awesome</span>}
+            {playlist.name}
+          </button>
+        ))}
+        {isCreating ? (
+          <form onSubmit={handleCreateSubmit}>
+            <input
+              autoFocus
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onBlur={handleCreateSubmit}
+              placeholder="Playlist name"
+              className="px-4 py-1.5 rounded-full text-sm bg-gray-800 text-white border border-gray-600 focus:outline-none focus:border-spotify-green"
+            />
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="flex items-center px-3 py-1.5 rounded-full text-sm font-semibold text-gray-300 border border-gray-700 hover:border-white hover:text-white transition-colors whitespace-nowrap"
+          >
+            <span className="material-symbols-outlined text-lg mr-1">add</span>
+            New playlist
+          </button>
+        )}
+        <button
+          onClick={onCreateSmartPlaylist}
+          className="flex items-center px-3 py-1.5 rounded-full text-sm font-semibold text-gray-300 border border-gray-700 hover:border-white hover:text-white transition-colors whitespace-nowrap"
+        >
+          <span className="material-symbols-outlined text-lg mr-1">auto_awesome</span>
+          New smart playlist
+        </button>
+      </div>
+
+      {selectedPlaylist && (
+        <div className="flex items-center justify-between">
+          {isRenaming ? (
+            <form onSubmit={handleRenameSubmit} className="flex-grow mr-4">
+              <input
+                autoFocus
+                value={nameInput}
+                onChange={(e) => setNameInput(e.target.value)}
+                onBlur={handleRenameSubmit}
+                className="w-full text-2xl font-bold bg-transparent border-b border-gray-600 focus:outline-none focus:border-spotify-green"
+              />
+            </form>
+          ) : (
+            <div>
+              <h2 className="text-2xl font-bold">{selectedPlaylist.name}</h2>
+              <p className="text-sm text-gray-400">
+                {selectedPlaylist.smart && 'Smart playlist · '}
+                {selectedPlaylistTrackCount} {selectedPlaylistTrackCount === 1 ? 'song' : 'songs'}{selectedPlaylistDuration && ` · ${selectedPlaylistDuration}`}
+              </p>
+            </div>
+          )}
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            {selectedPlaylist.smart && (
+              <button
+                onClick={() => onEditSmartPlaylist(selectedPlaylist.id)}
+                className="p-2 rounded-full hover:bg-gray-700/80 text-gray-400 hover:text-white transition-colors"
+                aria-label={`Edit rules of ${selectedPlaylist.name}`}
+                title="Edit rules"
+              >
+                <span className="material-symbols-outlined text-xl">tune</span>
+              </button>
+            )}
+            <button
+              onClick={() => { setNameInput(selectedPlaylist.name); setIsRenaming(true); }}
+              className="p-2 rounded-full hover:bg-gray-700/80 text-gray-400 hover:text-white transition-colors"
+              aria-label={`Rename ${selectedPlaylist.name}`}
+            >
+              <EditIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleDelete}
+              className="p-2 rounded-full hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors"
+              aria-label={`Delete ${selectedPlaylist.name}`}
+            >
+              <span className="material-symbols-outlined text-xl">delete</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistBar;
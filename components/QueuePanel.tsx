@@ -0,0 +1,55 @@
+import React from 'react';
+import { Track } from '../types';
+
+interface QueuePanelProps {
+  upNext: Track[];
+  // How many of the leading `upNext` entries were queued by hand.
+  priorityCount: number;
+  onRemove: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ upNext, priorityCount, onRemove, onMove }) => {
+  if (upNext.length === 0) {
+    return <div className="text-gray-500 text-center">Nothing queued. Playback stops after this song.</div>;
+  }
+
+  const renderItem = (track: Track, index: number) => (
+    <li key={`${index}-${track.id}`} className="flex items-center justify-between p-2 rounded-md hover:bg-white/10 group">
+      <div className="overflow-hidden text-left">
+        <p className="font-medium truncate text-white">{track.name}</p>
+        {track.artist && <p className="text-sm text-gray-400 truncate">{track.artist}</p>}
+      </div>
+      <div className="flex items-center flex-shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        <button onClick={() => onMove(index, index - 1)} disabled={index === 0 || index === priorityCount} className="p-1 text-gray-300 hover:text-white disabled:text-gray-600" aria-label={`Move ${track.name} up`}>
+          <span className="material-symbols-outlined">arrow_upward</span>
+        </button>
+        <button onClick={() => onMove(index, index + 1)} disabled={index === upNext.length - 1 || index === priorityCount - 1} className="p-1 text-gray-300 hover:text-white disabled:text-gray-600" aria-label={`Move ${track.name} down`}>
+          <span className="material-symbols-outlined">arrow_downward</span>
+        </button>
+        <button onClick={() => onRemove(index)} className="p-1 text-gray-300 hover:text-red-400" aria-label={`Remove ${track.name} from queue`}>
+          <span className="material-symbols-outlined">close</span>
+        </button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="h-full overflow-y-auto no-scrollbar space-y-4">
+      {priorityCount > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-2">Queued by you</h3>
+          <ul>{upNext.slice(0, priorityCount).map((track, index) => renderItem(track, index))}</ul>
+        </section>
+      )}
+      {upNext.length > priorityCount && (
+        <section>
+          <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-2">Next up</h3>
+          <ul>{upNext.slice(priorityCount).map((track, index) => renderItem(track, priorityCount + index))}</ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { NormalizationMode, PlaybackSettings } from '../types';
+import { MAX_CROSSFADE_SECONDS } from '../services/playbackEngine';
+import { EqualizerPreset, EqualizerSettings } from '../services/equalizer';
+import { XMarkIcon } from './icons';
+import { RestoreMode } from '../services/backup';
+import { LyricsProviderSettings } from '../services/lyricsProviders';
+import EqualizerPanel from './EqualizerPanel';
+import BackupPanel from './BackupPanel';
+import LyricsProvidersPanel from './LyricsProvidersPanel';
+
+const NORMALIZATION_OPTIONS: { mode: NormalizationMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'track', label: 'Track' },
+  { mode: 'album', label: 'Album' },
+];
+
+interface SettingsModalProps {
+  playbackSettings: PlaybackSettings;
+  equalizerSettings: EqualizerSettings;
+  customEqPresets: EqualizerPreset[];
+  onPlaybackSettingsChange: (settings: PlaybackSettings) => void;
+  onEqualizerChange: (settings: EqualizerSettings) => void;
+  onSaveEqPreset: (name: string) => void;
+  onDeleteEqPreset: (id: string) => void;
+  lyricsProviderSettings: LyricsProviderSettings;
+  onLyricsProviderSettingsChange: (settings: LyricsProviderSettings) => void;
+  onLibraryRestored: (mode: RestoreMode) => void;
+  onClose: () => void;
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({
+  playbackSettings, equalizerSettings, customEqPresets,
+  onPlaybackSettingsChange, onEqualizerChange, onSaveEqPreset, onDeleteEqPreset,
+  lyricsProviderSettings, onLyricsProviderSettingsChange, onLibraryRestored, onClose
+}) => {
+  const { crossfadeSeconds, normalization } = playbackSettings;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md m-4 transform transition-all flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-white">Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <section>
+            <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-4">Playback</h3>
+            <div className="flex justify-between items-center mb-2">
+              <label htmlFor="crossfade" className="text-sm font-medium text-gray-300">Crossfade</label>
+              <span className="text-sm text-spotify-green font-semibold">
+                {crossfadeSeconds === 0 ? 'Off (gapless)' : `${crossfadeSeconds} s`}
+              </span>
+            </div>
+            <input
+              id="crossfade"
+              type="range"
+              min="0"
+              max={MAX_CROSSFADE_SECONDS}
+              step="0.5"
+              value={crossfadeSeconds}
+              onChange={(e) => onPlaybackSettingsChange({ ...playbackSettings, crossfadeSeconds: Number(e.target.value) })}
+              className="w-full accent-spotify-green"
+            />
+            <p className="mt-2 text-xs text-gray-500">
+              Blends the end of each song into the next. Leave it off for albums that flow straight from one track to the next.
+            </p>
+            <div className="mt-6 flex justify-between items-center mb-2">
+              <span className="text-sm font-medium text-gray-300">Volume normalization</span>
+            </div>
+            <div className="flex bg-gray-900 rounded-full p-1" role="radiogroup" aria-label="Volume normalization">
+              {NORMALIZATION_OPTIONS.map(option => (
+                <button
+                  key={option.mode}
+                  role="radio"
+                  aria-checked={normalization === option.mode}
+                  onClick={() => onPlaybackSettingsChange({ ...playbackSettings, normalization: option.mode })}
+                  className={`flex-1 px-3 py-1.5 text-sm rounded-full transition-colors ${normalization === option.mode ? 'bg-spotify-green text-black font-semibold' : 'text-gray-300 hover:text-white'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Evens out volume between songs using ReplayGain tags, or a loudness scan run in the background after import.
+              Album mode keeps the quiet and loud moments of an album as they were mastered.
+            </p>
+          </section>
+          <EqualizerPanel
+            settings={equalizerSettings}
+            customPresets={customEqPresets}
+            onChange={onEqualizerChange}
+            onSavePreset={onSaveEqPreset}
+            onDeletePreset={onDeleteEqPreset}
+          />
+          <LyricsProvidersPanel settings={lyricsProviderSettings} onChange={onLyricsProviderSettingsChange} />
+          <BackupPanel onLibraryRestored={onLibraryRestored} />
+        </div>
+        <div className="p-4 bg-gray-800/50 border-t border-gray-700 flex justify-end rounded-b-lg flex-shrink-0">
+          <button onClick={onClose} className="px-6 py-2 text-sm font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
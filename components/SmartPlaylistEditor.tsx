@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { Playlist, SmartPlaylistDefinition, SmartRule, SmartRuleField, Track } from '../types';
+import { SortKey } from '../services/search';
+import {
+  SMART_FIELDS, OPERATOR_LABELS, getSmartField, operatorTakesValue, createSmartRule,
+  createSmartPlaylistDefinition, isRuleComplete, evaluateSmartPlaylist,
+} from '../services/smartPlaylists';
+import { SORT_COLUMNS } from './LibraryToolbar';
+import { XMarkIcon } from './icons';
+
+interface SmartPlaylistEditorProps {
+  // Null when creating a new smart playlist.
+  playlist: Playlist | null;
+  tracks: Track[];
+  onSave: (name: string, definition: SmartPlaylistDefinition) => void;
+  onClose: () => void;
+}
+
+const fieldClassName = 'bg-gray-900 text-white text-sm rounded-md px-2 py-1.5 border border-gray-700 focus:outline-none focus:border-spotify-green';
+
+// Shown after a number input, since durations are entered in minutes and date ranges in days.
+const VALUE_UNITS: Partial<Record<SmartRuleField, string>> = {
+  duration: 'min',
+  dateAdded: 'days',
+  lastPlayed: 'days',
+  rating: 'stars',
+};
+
+const parseNumber = (text: string) => (text.trim() === '' ? NaN : Number(text));
+
+const SmartPlaylistEditor: React.FC<SmartPlaylistEditorProps> = ({ playlist, tracks, onSave, onClose }) => {
+  const [name, setName] = useState(playlist?.name ?? '');
+  const [definition, setDefinition] = useState<SmartPlaylistDefinition>(() => playlist?.smart ?? createSmartPlaylistDefinition());
+
+  const updateRule = (index: number, rule: SmartRule) => {
+    setDefinition(prev => ({ ...prev, rules: prev.rules.map((r, i) => i === index ? rule : r) }));
+  };
+
+  const removeRule = (index: number) => {
+    setDefinition(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  };
+
+  const addRule = () => {
+    setDefinition(prev => ({ ...prev, rules: [...prev.rules, createSmartRule('artist')] }));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim(), { ...definition, rules: definition.rules.filter(isRuleComplete) });
+  };
+
+  const matchCount = evaluateSmartPlaylist(tracks, definition).length;
+
+  const renderValueInput = (rule: SmartRule, index: number) => {
+    if (!operatorTakesValue(rule.operator)) return null;
+    const kind = getSmartField(rule.field).kind;
+    if (kind === 'text') {
+      return (
+        <input
+          value={String(rule.value)}
+          onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+          placeholder="Value"
+          className={`${fieldClassName} flex-grow min-w-0`}
+          aria-label="Value"
+        />
+      );
+    }
+    // Durations are stored in seconds but entered in minutes.
+    const scale = kind === 'duration' ? 60 : 1;
+    const value = Number(rule.value);
+    return (
+      <span className="flex items-center flex-grow min-w-0">
+        <input
+          type="number"
+          min={rule.field === 'rating' ? 1 : 0}
+          max={rule.field === 'rating' ? 5 : undefined}
+          step={kind === 'duration' ? 0.5 : 1}
+          value={isFinite(value) ? value / scale : ''}
+          onChange={(e) => updateRule(index, { ...rule, value: parseNumber(e.target.value) * scale })}
+          className={`${fieldClassName} w-20`}
+          aria-label="Value"
+        />
+        {VALUE_UNITS[rule.field] && <span className="ml-2 text-sm text-gray-400">{VALUE_UNITS[rule.field]}</span>}
+      </span>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <form
+        onSubmit={handleSave}
+        className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg m-4 transform transition-all flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-white">{playlist ? 'Edit smart playlist' : 'New smart playlist'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div>
+            <label htmlFor="smart-playlist-name" className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+            <input
+              id="smart-playlist-name"
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Smart playlist name"
+              className={`${fieldClassName} w-full px-3 py-2`}
+            />
+          </div>
+
+          <section>
+            <div className="flex items-center text-sm text-gray-300 mb-3">
+              Match
+              <select
+                value={definition.match}
+                onChange={(e) => setDefinition(prev => ({ ...prev, match: e.target.value as SmartPlaylistDefinition['match'] }))}
+                className={`${fieldClassName} mx-2`}
+                aria-label="Match"
+              >
+                <option value="all">all</option>
+                <option value="any">any</option>
+              </select>
+              of these rules
+            </div>
+            <ul className="space-y-2">
+              {definition.rules.map((rule, index) => {
+                const info = getSmartField(rule.field);
+                return (
+                  <li key={index} className="flex items-center gap-2 flex-wrap bg-gray-900/50 rounded-md p-2 border border-gray-700">
+                    <select
+                      value={rule.field}
+                      onChange={(e) => updateRule(index, createSmartRule(e.target.value as SmartRuleField))}
+                      className={fieldClassName}
+                      aria-label="Field"
+                    >
+                      {SMART_FIELDS.map(field => <option key={field.field} value={field.field}>{field.label}</option>)}
+                    </select>
+                    <select
+                      value={rule.operator}
+                      onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as SmartRule['operator'] })}
+                      className={fieldClassName}
+                      aria-label="Condition"
+                    >
+                      {info.operators.map(operator => <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>)}
+                    </select>
+                    {renderValueInput(rule, index)}
+                    <button
+                      type="button"
+                      onClick={() => removeRule(index)}
+                      className="p-1 ml-auto rounded-full text-gray-400 hover:text-red-400 hover:bg-red-500/20 transition-colors"
+                      aria-label="Remove rule"
+                    >
+                      <span className="material-symbols-outlined text-xl">close</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <button
+              type="button"
+              onClick={addRule}
+              className="flex items-center mt-3 px-3 py-1.5 rounded-full text-sm font-semibold text-gray-300 border border-gray-700 hover:border-white hover:text-white transition-colors"
+            >
+              <span className="material-symbols-outlined text-lg mr-1">add</span>
+              Add rule
+            </button>
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center text-sm text-gray-300">
+              Sort by
+              <select
+                value={definition.sort.key}
+                onChange={(e) => setDefinition(prev => ({ ...prev, sort: { ...prev.sort, key: e.target.value as SortKey } }))}
+                className={`${fieldClassName} mx-2`}
+                aria-label="Sort by"
+              >
+                {SORT_COLUMNS.map(column => <option key={column.key} value={column.key}>{column.label}</option>)}
+              </select>
+              <select
+                value={definition.sort.direction}
+                onChange={(e) => setDefinition(prev => ({ ...prev, sort: { ...prev.sort, direction: e.target.value as 'asc' | 'desc' } }))}
+                className={fieldClassName}
+                aria-label="Sort direction"
+              >
+                <option value="asc">ascending</option>
+                <option value="desc">descending</option>
+              </select>
+            </div>
+            <label className="flex items-center text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={definition.limit !== undefined}
+                onChange={(e) => setDefinition(prev => ({ ...prev, limit: e.target.checked ? 25 : undefined }))}
+                className="mr-2 accent-spotify-green"
+              />
+              Limit to
+              <input
+                type="number"
+                min={1}
+                value={definition.limit ?? 25}
+                disabled={definition.limit === undefined}
+                onChange={(e) => {
+                  const limit = Math.floor(parseNumber(e.target.value));
+                  if (limit >= 1) setDefinition(prev => ({ ...prev, limit }));
+                }}
+                className={`${fieldClassName} w-20 mx-2 disabled:opacity-50`}
+                aria-label="Song limit"
+              />
+              songs
+            </label>
+          </section>
+
+          <p className="text-sm text-gray-400">
+            Currently matches {matchCount} {matchCount === 1 ? 'song' : 'songs'}. The playlist updates as your library and listening change.
+          </p>
+        </div>
+        <div className="p-4 bg-gray-800/50 border-t border-gray-700 flex justify-end space-x-3 rounded-b-lg flex-shrink-0">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-bold text-gray-300 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors">Cancel</button>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="px-6 py-2 text-sm font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:hover:scale-100"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SmartPlaylistEditor;
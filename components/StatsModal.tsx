@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { PlayEvent, Track } from '../types';
+import { getAllPlayEventsFromDB } from '../services/db';
+import { STATS_PERIODS, StatsPeriod, computeListeningStats, getRecentlyPlayed } from '../services/history';
+import { XMarkIcon } from './icons';
+
+interface StatsModalProps {
+  tracks: Track[];
+  onPlayTrack: (id: number) => void;
+  onClose: () => void;
+}
+
+const formatHours = (seconds: number) => {
+  const hours = seconds / 3600;
+  return hours < 10 ? hours.toFixed(1) : Math.round(hours).toLocaleString();
+};
+
+const formatWhen = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hr ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const StatsModal: React.FC<StatsModalProps> = ({ tracks, onPlayTrack, onClose }) => {
+  const [events, setEvents] = useState<PlayEvent[] | null>(null);
+  const [period, setPeriod] = useState<StatsPeriod>('month');
+
+  useEffect(() => {
+    getAllPlayEventsFromDB()
+      .then(setEvents)
+      .catch(error => {
+        console.error("Failed to load listening history:", error);
+        setEvents([]);
+      });
+  }, []);
+
+  const stats = events ? computeListeningStats(events, tracks, period) : null;
+  const recent = events ? getRecentlyPlayed(events, tracks) : [];
+  const topPlays = stats?.topTracks[0]?.plays ?? 1;
+
+  const trackButton = (track: Track, detail: string) => (
+    <button
+      onClick={() => onPlayTrack(track.id)}
+      className="w-full flex items-center justify-between text-left px-2 py-1.5 rounded-md hover:bg-gray-700/60 transition-colors"
+    >
+      <span className="min-w-0">
+        <span className="block text-sm text-white truncate">{track.name}</span>
+        {track.artist && <span className="block text-xs text-gray-400 truncate">{track.artist}</span>}
+      </span>
+      <span className="text-xs text-gray-400 flex-shrink-0 ml-3">{detail}</span>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md m-4 transform transition-all flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-white">Listening stats</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-1 p-1 bg-gray-900 rounded-full" role="radiogroup" aria-label="Period">
+            {STATS_PERIODS.map(option => (
+              <button
+                key={option.period}
+                role="radio"
+                aria-checked={period === option.period}
+                onClick={() => setPeriod(option.period)}
+                className={`py-1.5 text-sm font-semibold rounded-full transition-colors ${
+                  period === option.period ? 'bg-spotify-green text-black' : 'text-gray-300 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {!stats ? (
+            <p className="text-center text-gray-400 animate-pulse">Loading history...</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                {[
+                  [formatHours(stats.listenedSeconds), 'hours'],
+                  [stats.plays.toLocaleString(), stats.plays === 1 ? 'play' : 'plays'],
+                  [stats.skips.toLocaleString(), stats.skips === 1 ? 'skip' : 'skips'],
+                ].map(([value, label]) => (
+                  <div key={label} className="bg-gray-900/50 rounded-md py-3">
+                    <p className="text-2xl font-bold text-white">{value}</p>
+                    <p className="text-xs text-gray-400 uppercase tracking-widest">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              <section>
+                <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-2">Top songs</h3>
+                {stats.topTracks.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing played in this period yet.</p>
+                ) : (
+                  <ol className="space-y-0.5">
+                    {stats.topTracks.map(({ track, plays }) => (
+                      <li key={track.id} className="relative">
+                        <div className="absolute inset-y-0 left-0 bg-spotify-green/10 rounded-md pointer-events-none" style={{ width: `${plays / topPlays * 100}%` }} />
+                        {trackButton(track, `${plays} ${plays === 1 ? 'play' : 'plays'}`)}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+
+              {stats.topArtists.length > 0 && (
+                <section>
+                  <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-2">Top artists</h3>
+                  <ol className="space-y-1">
+                    {stats.topArtists.map(({ artist, plays }, index) => (
+                      <li key={artist} className="flex items-center justify-between px-2 text-sm">
+                        <span className="text-white truncate"><span className="text-gray-500 mr-2">{index + 1}</span>{artist}</span>
+                        <span className="text-xs text-gray-400 flex-shrink-0 ml-3">{plays} {plays === 1 ? 'play' : 'plays'}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              )}
+
+              <section>
+                <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-2">Recently played</h3>
+                {recent.length === 0 ? (
+                  <p className="text-sm text-gray-500">Songs you listen to will show up here.</p>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {recent.map(({ track, playedAt }) => <li key={track.id}>{trackButton(track, formatWhen(playedAt))}</li>)}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsModal;
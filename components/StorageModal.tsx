@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { Track } from '../types';
+import { StorageEstimate, getStorageEstimate, getTrackStorage, isStoragePersisted, requestPersistentStorage } from '../services/storage';
+import { formatFileSize } from '../services/format';
+import { XMarkIcon } from './icons';
+
+interface StorageModalProps {
+  tracks: Track[];
+  onRemoveMedia: (ids: number[], field: 'video' | 'coverArt') => void;
+  onDeleteTrack: (id: number) => void;
+  onFindDuplicates: () => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const StorageModal: React.FC<StorageModalProps> = ({ tracks, onRemoveMedia, onDeleteTrack, onFindDuplicates, onClose }) => {
+  // Undefined while loading, null when the browser can't say.
+  const [estimate, setEstimate] = useState<StorageEstimate | null | undefined>(undefined);
+  const [isPersisted, setIsPersisted] = useState(false);
+  const [wasPersistDeclined, setWasPersistDeclined] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Re-estimated whenever the library changes, e.g. after a cleanup.
+  useEffect(() => {
+    getStorageEstimate().then(setEstimate);
+  }, [tracks]);
+
+  useEffect(() => {
+    isStoragePersisted().then(setIsPersisted);
+  }, []);
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    setIsPersisted(granted);
+    setWasPersistDeclined(!granted);
+  };
+
+  const items = getTrackStorage(tracks);
+  const totals = items.reduce(
+    (sum, item) => ({ audio: sum.audio + item.audio, cover: sum.cover + item.cover, video: sum.video + item.video }),
+    { audio: 0, cover: 0, video: 0 }
+  );
+  const withVideo = tracks.filter(track => track.video);
+  const withCover = tracks.filter(track => track.coverArt);
+
+  const handleBulkRemove = (field: 'video' | 'coverArt') => {
+    const targets = field === 'video' ? withVideo : withCover;
+    const what = field === 'video' ? 'videos' : 'cover art';
+    if (confirm(`Remove ${what} from ${targets.length} ${targets.length === 1 ? 'song' : 'songs'}? The songs themselves stay in your library.`)) {
+      onRemoveMedia(targets.map(track => track.id), field);
+    }
+  };
+
+  const handleDelete = (track: Track) => {
+    if (confirm(`Delete "${track.name}" from your library?`)) onDeleteTrack(track.id);
+  };
+
+  const usedFraction = estimate && estimate.quota > 0 ? Math.min(1, estimate.usage / estimate.quota) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md m-4 transform transition-all flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-white">Storage</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <section>
+            <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-3">Space</h3>
+            {estimate === undefined ? (
+              <p className="text-sm text-gray-400 animate-pulse">Checking storage...</p>
+            ) : estimate === null ? (
+              <p className="text-sm text-gray-400">Your browser doesn't report how much space is left.</p>
+            ) : (
+              <>
+                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                  <div className={`h-full ${usedFraction > 0.9 ? 'bg-red-500' : 'bg-spotify-green'}`} style={{ width: `${usedFraction * 100}%` }} />
+                </div>
+                <p className="mt-2 text-sm text-gray-300">
+                  {formatFileSize(estimate.usage)} used · {formatFileSize(Math.max(0, estimate.quota - estimate.usage))} available
+                </p>
+              </>
+            )}
+            <div className="mt-3 grid grid-cols-3 gap-3 text-center">
+              {[['Audio', totals.audio], ['Covers', totals.cover], ['Videos', totals.video]].map(([label, bytes]) => (
+                <div key={label} className="bg-gray-900/50 rounded-md py-2">
+                  <p className="text-sm font-semibold text-white">{formatFileSize(bytes as number)}</p>
+                  <p className="text-xs text-gray-400 uppercase tracking-widest">{label}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-2">Persistence</h3>
+            {isPersisted ? (
+              <p className="text-sm text-gray-300">
+                <span className="material-symbols-outlined align-middle text-lg text-spotify-green mr-1">verified_user</span>
+                Your library is kept even when the device runs low on space.
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-300">The browser may clear your library without warning when the device runs low on space.</p>
+                <button
+                  onClick={handlePersist}
+                  className="mt-3 px-4 py-2 text-sm font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform"
+                >
+                  Keep my library
+                </button>
+                {wasPersistDeclined && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    The browser declined for now. It is more likely to agree once the site is bookmarked, installed or used regularly.
+                  </p>
+                )}
+              </>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-2">Clean up</h3>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => handleBulkRemove('video')}
+                disabled={withVideo.length === 0}
+                className="px-4 py-2 text-sm font-bold text-white bg-gray-700 rounded-full hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:hover:bg-gray-700"
+              >
+                Remove all videos ({formatFileSize(totals.video)})
+              </button>
+              <button
+                onClick={() => handleBulkRemove('coverArt')}
+                disabled={withCover.length === 0}
+                className="px-4 py-2 text-sm font-bold text-white bg-gray-700 rounded-full hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:hover:bg-gray-700"
+              >
+                Remove all cover art ({formatFileSize(totals.cover)})
+              </button>
+              <button
+                onClick={onFindDuplicates}
+                className="px-4 py-2 text-sm font-bold text-white bg-gray-700 rounded-full hover:bg-gray-600 transition-colors"
+              >
+                Find duplicates
+              </button>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold uppercase tracking-widest text-gray-400 mb-2">Biggest songs</h3>
+            {items.length === 0 ? (
+              <p className="text-sm text-gray-500">Your library is empty.</p>
+            ) : (
+              <ul className="space-y-1">
+                {items.slice(0, visibleCount).map(({ track, audio, cover, video, total }) => (
+                  <li key={track.id} className="flex items-center justify-between px-2 py-1.5 rounded-md hover:bg-gray-700/60">
+                    <span className="min-w-0">
+                      <span className="block text-sm text-white truncate">{track.name}</span>
+                      <span className="block text-xs text-gray-400 truncate">
+                        {[
+                          `Audio ${formatFileSize(audio)}`,
+                          cover > 0 && `Cover ${formatFileSize(cover)}`,
+                          video > 0 && `Video ${formatFileSize(video)}`,
+                        ].filter(Boolean).join(' · ')}
+                      </span>
+                    </span>
+                    <span className="flex items-center flex-shrink-0 ml-3">
+                      <span className="text-xs font-semibold text-gray-300 tabular-nums mr-1">{formatFileSize(total)}</span>
+                      {video > 0 && (
+                        <button
+                          onClick={() => onRemoveMedia([track.id], 'video')}
+                          className="p-1 rounded-full text-gray-500 hover:text-white hover:bg-gray-600 transition-colors"
+                          aria-label={`Remove video from ${track.name}`}
+                          title="Remove video"
+                        >
+                          <span className="material-symbols-outlined text-lg">videocam_off</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(track)}
+                        className="p-1 rounded-full text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors"
+                        aria-label={`Delete ${track.name}`}
+                        title="Delete song"
+                      >
+                        <span className="material-symbols-outlined text-lg">delete</span>
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {items.length > visibleCount && (
+              <button
+                onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                className="mt-2 text-sm font-semibold text-gray-300 hover:text-white"
+              >
+                Show more
+              </button>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageModal;
@@ -1,61 +1,165 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Track } from '../types';
+import { EqualizerPreset } from '../services/equalizer';
+import { parseLrc } from '../services/lyrics';
+import { formatDuration, formatFileSize } from '../services/format';
+import { grabVideoFrame } from '../services/artwork';
 import { XMarkIcon, PhotoIcon, VideoCameraIcon } from './icons';
 
+// Everything the editor can change. Saving writes all of it, so an undefined value clears the field.
+export type TrackEdits = Pick<Track,
+  'name' | 'artist' | 'album' | 'albumArtist' | 'trackNumber' | 'discNumber' | 'year' | 'genre' | 'comment'
+  | 'coverArt' | 'video' | 'eqPresetId' | 'lyrics' | 'rating'>;
+
 interface TrackEditorModalProps {
   track: Track;
-  onSave: (updatedData: { id: number; coverArt?: File; video?: File }) => void;
+  eqPresets: EqualizerPreset[];
+  onSave: (id: number, edits: TrackEdits) => void;
+  // Lets the owner ask before throwing away unsaved changes, whichever way the editor is closed.
+  onDirtyChange: (isDirty: boolean) => void;
   onClose: () => void;
 }
 
-const TrackEditorModal: React.FC<TrackEditorModalProps> = ({ track, onSave, onClose }) => {
-  const [coverArtFile, setCoverArtFile] = useState<File | null>(null);
-  const [videoFile, setVideoFile] = useState<File | null>(null);
-  const [coverArtPreview, setCoverArtPreview] = useState<string>('');
-  const [videoPreview, setVideoPreview] = useState<string>('');
+type TextField = 'name' | 'artist' | 'album' | 'albumArtist' | 'trackNumber' | 'discNumber' | 'year' | 'genre' | 'comment';
+
+const NUMBER_FIELDS: TextField[] = ['trackNumber', 'discNumber', 'year'];
+
+const inputClassName = "w-full bg-gray-900 text-white text-sm rounded-md px-3 py-2 border border-gray-700 focus:outline-none focus:border-spotify-green";
+
+const textFieldsOf = (track: Track): Record<TextField, string> => ({
+  name: track.name,
+  artist: track.artist ?? '',
+  album: track.album ?? '',
+  albumArtist: track.albumArtist ?? '',
+  trackNumber: track.trackNumber?.toString() ?? '',
+  discNumber: track.discNumber?.toString() ?? '',
+  year: track.year?.toString() ?? '',
+  genre: track.genre ?? '',
+  comment: track.comment ?? '',
+});
+
+// An object URL for previewing `blob`, revoked as soon as the blob changes or the editor closes.
+const useObjectUrl = (blob?: Blob): string => {
+  const [url, setUrl] = useState('');
+  useEffect(() => {
+    if (!blob) {
+      setUrl('');
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+};
+
+const TrackEditorModal: React.FC<TrackEditorModalProps> = ({ track, eqPresets, onSave, onDirtyChange, onClose }) => {
+  const [fields, setFields] = useState<Record<TextField, string>>(() => textFieldsOf(track));
+  const [coverArt, setCoverArt] = useState<Blob | undefined>(track.coverArt);
+  const [eqPresetId, setEqPresetId] = useState<string>(track.eqPresetId ?? '');
+  const [video, setVideo] = useState<Blob | undefined>(track.video);
+  const [lyrics, setLyrics] = useState<string | undefined>(track.lyrics);
+  const [lyricsFileName, setLyricsFileName] = useState<string>('');
+  const [rating, setRating] = useState<number | undefined>(track.rating);
+  const [isGrabbingFrame, setIsGrabbingFrame] = useState(false);
+
+  const coverArtPreview = useObjectUrl(coverArt);
+  const videoPreview = useObjectUrl(video);
 
   const coverArtInputRef = useRef<HTMLInputElement>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
+  const lyricsInputRef = useRef<HTMLInputElement>(null);
+
+  const setField = (field: TextField, value: string) => setFields(prev => ({ ...prev, [field]: value }));
+
+  const invalidNumberField = NUMBER_FIELDS.find(field => fields[field].trim() !== '' && !/^\d+$/.test(fields[field].trim()));
+  const isTitleMissing = fields.name.trim() === '';
+
+  const textValue = (field: TextField) => fields[field].trim() || undefined;
+  const numberValue = (field: TextField) => fields[field].trim() ? Number(fields[field].trim()) : undefined;
+  const edits: TrackEdits = {
+    name: fields.name.trim(),
+    artist: textValue('artist'),
+    album: textValue('album'),
+    albumArtist: textValue('albumArtist'),
+    trackNumber: numberValue('trackNumber'),
+    discNumber: numberValue('discNumber'),
+    year: numberValue('year'),
+    genre: textValue('genre'),
+    comment: textValue('comment'),
+    coverArt,
+    video,
+    eqPresetId: eqPresetId || undefined,
+    lyrics,
+    rating,
+  };
+  // Empty and missing count as the same, so tags stored as "" don't look edited.
+  const isDirty = (Object.keys(edits) as (keyof TrackEdits)[]).some(key => (edits[key] ?? '') !== (track[key] ?? ''));
 
   useEffect(() => {
-    let artUrl = '';
-    if (track.coverArt) {
-      artUrl = URL.createObjectURL(track.coverArt);
-      setCoverArtPreview(artUrl);
-    }
-    let vidUrl = '';
-    if (track.video) {
-        vidUrl = URL.createObjectURL(track.video);
-        setVideoPreview(vidUrl);
-    }
-    return () => {
-      if (artUrl) URL.revokeObjectURL(artUrl);
-      if (vidUrl) URL.revokeObjectURL(vidUrl);
-    };
-  }, [track]);
+    onDirtyChange(isDirty);
+  }, [isDirty]);
 
   const handleCoverArtChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setCoverArtFile(file);
-      setCoverArtPreview(URL.createObjectURL(file));
-    }
+    e.target.value = '';
+    if (file) setCoverArt(file);
   };
   
   const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setVideoFile(file);
-      setVideoPreview(URL.createObjectURL(file));
+    e.target.value = '';
+    if (file) setVideo(file);
+  };
+
+  const handleUseVideoFrame = async () => {
+    if (!video) return;
+    setIsGrabbingFrame(true);
+    try {
+      setCoverArt(await grabVideoFrame(video));
+    } catch (error) {
+      console.error("Failed to grab a video frame:", error);
+      alert(`Couldn't take a cover from the video: ${(error as Error).message}`);
+    } finally {
+      setIsGrabbingFrame(false);
+    }
+  };
+
+  const handleLyricsChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await file.text();
+      if (parseLrc(text).lines.length === 0) {
+        alert(`"${file.name}" doesn't contain any lyrics.`);
+        return;
+      }
+      setLyrics(text);
+      setLyricsFileName(file.name);
+    } catch (error) {
+      console.error("Failed to read lyrics file:", error);
+      alert(`Couldn't read "${file.name}".`);
     }
   };
 
+  const parsedLyrics = lyrics ? parseLrc(lyrics) : null;
+
+  const details: [string, string | undefined][] = [
+    ['Duration', formatDuration(track.duration) || undefined],
+    ['Format', track.codec],
+    ['Bitrate', track.bitrate ? `${track.bitrate} kbps` : undefined],
+    ['Sample rate', track.sampleRate ? `${(track.sampleRate / 1000).toLocaleString()} kHz` : undefined],
+    ['Bit depth', track.bitDepth ? `${track.bitDepth}-bit` : undefined],
+    ['Channels', track.channels ? (track.channels === 1 ? 'Mono' : track.channels === 2 ? 'Stereo' : String(track.channels)) : undefined],
+    ['File size', formatFileSize(track.file.size)],
+    ['File type', track.file.type || undefined],
+    ['Added', new Date(track.dateAdded).toLocaleDateString()],
+  ];
+
   const handleSave = () => {
-    onSave({
-      id: track.id,
-      coverArt: coverArtFile || undefined,
-      video: videoFile || undefined,
-    });
+    if (isTitleMissing || invalidNumberField) return;
+    onSave(track.id, edits);
   };
 
   return (
@@ -71,14 +175,61 @@ const TrackEditorModal: React.FC<TrackEditorModalProps> = ({ track, onSave, onCl
           </button>
         </div>
         <div className="p-6 space-y-6 overflow-y-auto">
-            <div className='text-center'>
-                <p className='text-xl font-bold text-spotify-green'>{track.name}</p>
-                <p className='text-sm text-gray-400'>Add your visuals</p>
+            {/* Tags */}
+            <div className="space-y-3">
+                <div>
+                    <label htmlFor="track-name" className="block text-sm font-medium text-gray-300 mb-1">Title</label>
+                    <input id="track-name" type="text" value={fields.name} onChange={(e) => setField('name', e.target.value)} className={inputClassName} />
+                    {isTitleMissing && <p className="mt-1 text-xs text-red-400">A song needs a title.</p>}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="track-artist" className="block text-sm font-medium text-gray-300 mb-1">Artist</label>
+                        <input id="track-artist" type="text" value={fields.artist} onChange={(e) => setField('artist', e.target.value)} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="track-album-artist" className="block text-sm font-medium text-gray-300 mb-1">Album artist</label>
+                        <input id="track-album-artist" type="text" value={fields.albumArtist} onChange={(e) => setField('albumArtist', e.target.value)} className={inputClassName} />
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="track-album" className="block text-sm font-medium text-gray-300 mb-1">Album</label>
+                    <input id="track-album" type="text" value={fields.album} onChange={(e) => setField('album', e.target.value)} className={inputClassName} />
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                    <div>
+                        <label htmlFor="track-number" className="block text-sm font-medium text-gray-300 mb-1">Track</label>
+                        <input id="track-number" type="text" inputMode="numeric" value={fields.trackNumber} onChange={(e) => setField('trackNumber', e.target.value)} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="track-disc" className="block text-sm font-medium text-gray-300 mb-1">Disc</label>
+                        <input id="track-disc" type="text" inputMode="numeric" value={fields.discNumber} onChange={(e) => setField('discNumber', e.target.value)} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="track-year" className="block text-sm font-medium text-gray-300 mb-1">Year</label>
+                        <input id="track-year" type="text" inputMode="numeric" value={fields.year} onChange={(e) => setField('year', e.target.value)} className={inputClassName} />
+                    </div>
+                </div>
+                {invalidNumberField && <p className="text-xs text-red-400">Track, disc and year must be whole numbers.</p>}
+                <div>
+                    <label htmlFor="track-genre" className="block text-sm font-medium text-gray-300 mb-1">Genre</label>
+                    <input id="track-genre" type="text" value={fields.genre} onChange={(e) => setField('genre', e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="track-comment" className="block text-sm font-medium text-gray-300 mb-1">Comments</label>
+                    <textarea id="track-comment" rows={2} value={fields.comment} onChange={(e) => setField('comment', e.target.value)} className={`${inputClassName} resize-y`} />
+                </div>
             </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {/* Cover Art Upload */}
                 <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">Cover Art</label>
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-gray-300">Cover Art</label>
+                        {coverArt && (
+                            <button onClick={() => setCoverArt(undefined)} className="text-xs font-semibold text-gray-400 hover:text-red-400">Remove</button>
+                        )}
+                    </div>
                     <div 
                         onClick={() => coverArtInputRef.current?.click()}
                         className="aspect-square bg-gray-900/50 rounded-md cursor-pointer flex items-center justify-center border-2 border-dashed border-gray-600 hover:border-spotify-green transition-colors"
@@ -97,7 +248,12 @@ const TrackEditorModal: React.FC<TrackEditorModalProps> = ({ track, onSave, onCl
 
                 {/* Video Upload */}
                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">Video (9:16)</label>
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-gray-300">Video (9:16)</label>
+                        {video && (
+                            <button onClick={() => setVideo(undefined)} className="text-xs font-semibold text-gray-400 hover:text-red-400">Remove</button>
+                        )}
+                    </div>
                     <div 
                         onClick={() => videoInputRef.current?.click()}
                         className="aspect-[9/16] bg-gray-900/50 rounded-md cursor-pointer flex items-center justify-center border-2 border-dashed border-gray-600 hover:border-spotify-green transition-colors"
@@ -112,12 +268,115 @@ const TrackEditorModal: React.FC<TrackEditorModalProps> = ({ track, onSave, onCl
                         )}
                         <input type="file" accept="video/*" ref={videoInputRef} onChange={handleVideoChange} className="hidden" />
                     </div>
+                    {video && (
+                        <button
+                            onClick={handleUseVideoFrame}
+                            disabled={isGrabbingFrame}
+                            className="mt-2 w-full flex items-center justify-center text-xs font-semibold text-gray-400 hover:text-white disabled:opacity-50"
+                        >
+                            <span className="material-symbols-outlined text-base mr-1">photo_camera</span>
+                            {isGrabbingFrame ? 'Grabbing frame...' : 'Use a frame as cover'}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {/* Lyrics */}
+            <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Lyrics</label>
+                <div className="flex items-center justify-between bg-gray-900/50 rounded-md px-3 py-2 border border-gray-700">
+                    <div className="min-w-0 text-sm">
+                        {parsedLyrics ? (
+                            <>
+                                <p className="text-white truncate">{lyricsFileName || 'Saved lyrics'}</p>
+                                <p className="text-xs text-gray-400">
+                                    {parsedLyrics.lines.filter(line => line.text).length} lines · {parsedLyrics.isSynced ? 'synced' : 'plain text'}
+                                </p>
+                            </>
+                        ) : (
+                            <p className="text-gray-400">None. Lyrics will be generated when available.</p>
+                        )}
+                    </div>
+                    <div className="flex items-center space-x-1 flex-shrink-0 ml-2">
+                        <button
+                            onClick={() => lyricsInputRef.current?.click()}
+                            className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                            aria-label="Attach lyrics file"
+                            title="Attach a .lrc or text file"
+                        >
+                            <span className="material-symbols-outlined">upload_file</span>
+                        </button>
+                        {lyrics && (
+                            <button
+                                onClick={() => { setLyrics(undefined); setLyricsFileName(''); }}
+                                className="p-2 rounded-full text-gray-400 hover:text-red-400 hover:bg-red-500/20 transition-colors"
+                                aria-label="Remove lyrics"
+                                title="Remove lyrics"
+                            >
+                                <span className="material-symbols-outlined">delete</span>
+                            </button>
+                        )}
+                    </div>
+                    <input type="file" accept=".lrc,.txt,text/plain" ref={lyricsInputRef} onChange={handleLyricsChange} className="hidden" />
                 </div>
             </div>
+
+            {/* Rating */}
+            <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Rating</label>
+                <div className="flex items-center" role="radiogroup" aria-label="Rating">
+                    {[1, 2, 3, 4, 5].map(stars => (
+                        <button
+                            key={stars}
+                            role="radio"
+                            aria-checked={rating === stars}
+                            // Clicking the current rating again clears it.
+                            onClick={() => setRating(rating === stars ? undefined : stars)}
+                            className={`p-0.5 transition-colors ${rating !== undefined && stars <= rating ? 'text-spotify-green' : 'text-gray-600 hover:text-gray-400'}`}
+                            aria-label={`${stars} ${stars === 1 ? 'star' : 'stars'}`}
+                        >
+                            <span className="material-symbols-outlined text-2xl" style={{ fontVariationSettings: "'FILL' 1" }}>star</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Per-track EQ override */}
+            <div>
+                <label htmlFor="track-eq" className="block text-sm font-medium text-gray-300 mb-2">Equalizer</label>
+                <select
+                    id="track-eq"
+                    value={eqPresetId}
+                    onChange={(e) => setEqPresetId(e.target.value)}
+                    className="w-full bg-gray-900 text-white text-sm rounded-md px-3 py-2 border border-gray-700 focus:outline-none focus:border-spotify-green"
+                >
+                    <option value="">Use global setting</option>
+                    {eqPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+            </div>
+
+            {/* Technical details */}
+            <div>
+                <h3 className="block text-sm font-medium text-gray-300 mb-2">Details</h3>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm bg-gray-900/50 rounded-md px-3 py-2 border border-gray-700">
+                    {details.filter(([, value]) => value).map(([label, value]) => (
+                        <React.Fragment key={label}>
+                            <dt className="text-gray-400">{label}</dt>
+                            <dd className="text-white truncate">{value}</dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+            </div>
         </div>
         <div className="p-4 bg-gray-800/50 border-t border-gray-700 flex justify-end space-x-3 rounded-b-lg flex-shrink-0">
           <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-gray-300 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors">Cancel</button>
-          <button onClick={handleSave} className="px-6 py-2 text-sm font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform">Save</button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isTitleMissing || !!invalidNumberField}
+            className="px-6 py-2 text-sm font-bold text-black bg-spotify-green rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:hover:scale-100"
+          >
+            Save
+          </button>
         </div>
       </div>
     </div>
@@ -0,0 +1,123 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { resampleWaveform } from '../services/waveform';
+
+interface WaveformSeekBarProps {
+  // Null until the track's waveform has been computed; a plain line is drawn meanwhile.
+  peaks: Uint8Array | null;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  disabled?: boolean;
+  // Sets the height, e.g. "h-8".
+  className?: string;
+}
+
+const PLAYED_COLOR = '#1DB954';
+const UNPLAYED_COLOR = 'rgba(255, 255, 255, 0.25)';
+const HOVER_COLOR = 'rgba(255, 255, 255, 0.5)';
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+// Quiet passages still get a visible sliver.
+const MIN_BAR_HEIGHT = 0.08;
+
+const formatTime = (time: number) => {
+  if (isNaN(time) || time === 0) return '0:00';
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60).toString().padStart(2, '0');
+  return `${minutes}:${seconds}`;
+};
+
+const WaveformSeekBar: React.FC<WaveformSeekBarProps> = ({ peaks, currentTime, duration, onSeek, disabled, className = 'h-8' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  // Fraction of the bar under the pointer, or null when it isn't hovering.
+  const [hoverFraction, setHoverFraction] = useState<number | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const barCount = Math.max(1, Math.floor(size.width / (BAR_WIDTH + BAR_GAP)));
+  const bars = useMemo(() => peaks ? resampleWaveform(peaks, barCount) : null, [peaks, barCount]);
+  const playedFraction = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * scale);
+    canvas.height = Math.round(size.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(scale, scale);
+    context.clearRect(0, 0, size.width, size.height);
+
+    const colorAt = (fraction: number) => {
+      if (fraction <= playedFraction) return PLAYED_COLOR;
+      if (hoverFraction !== null && fraction <= hoverFraction) return HOVER_COLOR;
+      return UNPLAYED_COLOR;
+    };
+
+    if (!bars) {
+      const y = size.height / 2 - 1;
+      context.fillStyle = UNPLAYED_COLOR;
+      context.fillRect(0, y, size.width, 2);
+      context.fillStyle = PLAYED_COLOR;
+      context.fillRect(0, y, size.width * playedFraction, 2);
+      return;
+    }
+
+    // Normalize to the loudest bar so quiet recordings still fill the height.
+    const loudest = Math.max(...bars, 0.01);
+    bars.forEach((level, i) => {
+      const x = i * (BAR_WIDTH + BAR_GAP);
+      const height = Math.max(MIN_BAR_HEIGHT, level / loudest) * size.height;
+      context.fillStyle = colorAt((x + BAR_WIDTH / 2) / size.width);
+      context.fillRect(x, (size.height - height) / 2, BAR_WIDTH, height);
+    });
+  }, [bars, size, playedFraction, hoverFraction]);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (disabled || duration <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHoverFraction(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full ${className}`}
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => setHoverFraction(null)}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      {hoverFraction !== null && (
+        <div
+          className="absolute bottom-full mb-1 -translate-x-1/2 px-1.5 py-0.5 rounded bg-gray-900 text-white text-[10px] font-medium pointer-events-none whitespace-nowrap"
+          style={{ left: `${hoverFraction * 100}%` }}
+        >
+          {formatTime(hoverFraction * duration)}
+        </div>
+      )}
+      <input
+        type="range"
+        min="0"
+        max={duration || 1}
+        value={currentTime}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+        disabled={disabled}
+        aria-label="Seek slider"
+      />
+    </div>
+  );
+};
+
+export default WaveformSeekBar;
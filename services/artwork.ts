@@ -0,0 +1,119 @@
+// Covers are stored downscaled and re-encoded, with a small thumbnail next to them for the
+// list rows and player bar, which would otherwise decode the full image for a 48px square.
+
+// Large enough for the Now Playing view on a high-density screen.
+const COVER_MAX_SIZE = 1200;
+// 48px rows at up to 3x pixel density.
+const THUMBNAIL_SIZE = 144;
+const COVER_QUALITY = 0.88;
+const THUMBNAIL_QUALITY = 0.8;
+// A cover already within bounds and no bigger than this is stored as it came.
+const KEEP_ORIGINAL_BYTES = 400 * 1024;
+// Grabbed frames come from a tenth of the way in, past any fade from black, but no later than this.
+const FRAME_MAX_SECONDS = 5;
+const FRAME_TIMEOUT_MS = 15000;
+
+export interface ProcessedCover {
+  coverArt: Blob;
+  coverThumbnail: Blob;
+}
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("The image couldn't be read"));
+  image.src = url;
+});
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob | null> => {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+};
+
+// Draws `source` shrunk to fit within `maxSize`, never enlarged.
+const drawScaled = (source: CanvasImageSource, width: number, height: number, maxSize: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Couldn't process the image");
+  // JPEG has no transparency; without this, transparent areas turn black anyway.
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const encodeJpeg = async (canvas: HTMLCanvasElement, quality: number): Promise<Blob> => {
+  const blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+  if (!blob) throw new Error("Couldn't process the image");
+  return blob;
+};
+
+const withDecodedImage = async <T>(image: Blob, use: (element: HTMLImageElement) => Promise<T>): Promise<T> => {
+  const url = URL.createObjectURL(image);
+  try {
+    return await use(await loadImage(url));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const thumbnailOf = (element: HTMLImageElement): Promise<Blob> => {
+  return encodeJpeg(drawScaled(element, element.naturalWidth, element.naturalHeight, THUMBNAIL_SIZE), THUMBNAIL_QUALITY);
+};
+
+/**
+ * A cover ready to store: downscaled and re-encoded as JPEG when it's oversized or heavy,
+ * plus its thumbnail. Rejects when the browser can't decode the image.
+ */
+export const processCoverArt = (image: Blob): Promise<ProcessedCover> => withDecodedImage(image, async (element) => {
+  const { naturalWidth: width, naturalHeight: height } = element;
+  const fits = Math.max(width, height) <= COVER_MAX_SIZE;
+  let coverArt = image;
+  if (!fits || image.size > KEEP_ORIGINAL_BYTES) {
+    const encoded = await encodeJpeg(drawScaled(element, width, height, COVER_MAX_SIZE), COVER_QUALITY);
+    // Re-encoding a small image can make it bigger; then the original is the better copy.
+    if (!fits || encoded.size < image.size) coverArt = encoded;
+  }
+  return { coverArt, coverThumbnail: await thumbnailOf(element) };
+});
+
+/** Just the thumbnail, for covers stored before thumbnails were. */
+export const createCoverThumbnail = (image: Blob): Promise<Blob> => withDecodedImage(image, thumbnailOf);
+
+/** A still from `video` as a JPEG, to use as cover art. */
+export const grabVideoFrame = (video: Blob): Promise<Blob> => new Promise((resolve, reject) => {
+  const element = document.createElement('video');
+  const url = URL.createObjectURL(video);
+  let isDone = false;
+  const finish = (result: Blob | Error) => {
+    if (isDone) return;
+    isDone = true;
+    clearTimeout(timer);
+    element.removeAttribute('src');
+    element.load();
+    URL.revokeObjectURL(url);
+    if (result instanceof Blob) resolve(result);
+    else reject(result);
+  };
+  const timer = setTimeout(() => finish(new Error("Timed out while reading the video")), FRAME_TIMEOUT_MS);
+  element.muted = true;
+  element.preload = 'auto';
+  element.onloadedmetadata = () => {
+    element.currentTime = Number.isFinite(element.duration) ? Math.min(FRAME_MAX_SECONDS, element.duration / 10) : 0;
+  };
+  element.onseeked = () => {
+    if (!element.videoWidth) {
+      finish(new Error("The video has no picture to use"));
+      return;
+    }
+    try {
+      encodeJpeg(drawScaled(element, element.videoWidth, element.videoHeight, COVER_MAX_SIZE), COVER_QUALITY).then(finish, finish);
+    } catch (error) {
+      finish(error as Error);
+    }
+  };
+  element.onerror = () => finish(new Error("Couldn't read a frame from the video"));
+  element.src = url;
+});
@@ -0,0 +1,328 @@
+import { Track, Playlist, PlayEvent } from '../types';
+import {
+  getAllTracksFromDB, addTrackToDB, getAllPlaylistsFromDB, addPlaylistToDB, updatePlaylistInDB,
+  getAllSettingsFromDB, putSettingInDB, getAllPlayEventsFromDB, addPlayEventsToDB, deleteLibraryEntriesInDB, LibraryEntryIds
+} from './db';
+import { TarEntry, TAR_END, createTarHeader, readTarEntries, tarPadding } from './tar';
+import { crc32OfBlob } from './checksum';
+
+// A backup is a plain tar archive: one entry per audio, cover and video blob, followed by
+// manifest.json describing every track, playlist, setting and listen. The manifest comes last
+// because it carries the checksums, which are only known once each blob has been read.
+
+const BACKUP_FORMAT = 'offline-music-player-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+type BlobField = 'file' | 'coverArt' | 'coverThumbnail' | 'video';
+const BLOB_FIELDS: BlobField[] = ['file', 'coverArt', 'coverThumbnail', 'video'];
+
+interface BackupBlob {
+  path: string;
+  size: number;
+  type: string;
+  crc32: string;
+}
+
+type BackupTrack = Omit<Track, BlobField> & { blobs: Partial<Record<BlobField, BackupBlob>> };
+
+interface BackupManifest {
+  format: string;
+  version: number;
+  exportedAt: number;
+  tracks: BackupTrack[];
+  playlists: Playlist[];
+  settings: { key: string; value: unknown }[];
+  // Missing from backups made before listening history was included.
+  history?: PlayEvent[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupProgress {
+  phase: 'exporting' | 'verifying' | 'restoring';
+  // Bytes of track data handled so far, out of the total.
+  done: number;
+  total: number;
+}
+
+export interface RestoreResult {
+  restoredTracks: number;
+  // Merge mode leaves out tracks the library already has.
+  skippedTracks: number;
+  // Names of tracks left out because their data failed its checksum.
+  corruptedTracks: string[];
+  restoredPlaylists: number;
+}
+
+interface ArchiveSink {
+  write: (part: Blob | Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+// The part of the File System Access API used here; TypeScript's DOM types don't include the picker.
+type ShowSaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+// Where the File System Access API exists, the archive is written straight to disk.
+const openFileSink = async (fileName: string): Promise<ArchiveSink | null> => {
+  if (!('showSaveFilePicker' in window)) return null;
+  const showSaveFilePicker = window.showSaveFilePicker as ShowSaveFilePicker;
+  const handle = await showSaveFilePicker({
+    suggestedName: fileName,
+    types: [{ description: 'Library backup', accept: { 'application/x-tar': ['.tar'] } }],
+  });
+  const writable = await handle.createWritable();
+  return {
+    write: (part) => writable.write(part),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+};
+
+// Elsewhere the archive becomes a Blob made of references to the stored blobs, which the
+// browser can hand to a download without copying the library into memory first.
+const openDownloadSink = (fileName: string): ArchiveSink => {
+  const parts: BlobPart[] = [];
+  return {
+    write: async (part) => { parts.push(part as BlobPart); },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: 'application/x-tar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      // Give the download a moment to start before letting go of the data.
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    },
+    abort: async () => { parts.length = 0; },
+  };
+};
+
+const backupFileName = () => `music-library-${new Date().toISOString().slice(0, 10)}.tar`;
+
+/**
+ * Writes every track, playlist, setting and listen to a single archive. Rejects with an
+ * `AbortError` if the user cancels the save dialog.
+ */
+export const exportLibrary = async (onProgress: (progress: BackupProgress) => void): Promise<void> => {
+  const [tracks, playlists, settings, history] = await Promise.all([
+    getAllTracksFromDB(), getAllPlaylistsFromDB(), getAllSettingsFromDB(), getAllPlayEventsFromDB(),
+  ]);
+  const total = tracks.reduce((sum, track) => sum + BLOB_FIELDS.reduce((size, field) => size + (track[field]?.size ?? 0), 0), 0);
+  let done = 0;
+  onProgress({ phase: 'exporting', done, total });
+
+  const fileName = backupFileName();
+  const sink = (await openFileSink(fileName)) ?? openDownloadSink(fileName);
+  try {
+    const manifestTracks: BackupTrack[] = [];
+    for (const track of tracks) {
+      const { file, coverArt, coverThumbnail, video, ...fields } = track;
+      const blobs: BackupTrack['blobs'] = {};
+      for (const [field, blob] of [['file', file], ['coverArt', coverArt], ['coverThumbnail', coverThumbnail], ['video', video]] as [BlobField, Blob | undefined][]) {
+        if (!blob) continue;
+        const path = `tracks/${track.id}/${field}`;
+        const crc32 = await crc32OfBlob(blob, (bytes) => {
+          done += bytes;
+          onProgress({ phase: 'exporting', done, total });
+        });
+        await sink.write(createTarHeader(path, blob.size));
+        await sink.write(blob);
+        await sink.write(tarPadding(blob.size));
+        blobs[field] = { path, size: blob.size, type: blob.type, crc32 };
+      }
+      manifestTracks.push({ ...fields, blobs });
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      tracks: manifestTracks,
+      playlists,
+      settings,
+      history,
+    };
+    const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+    await sink.write(createTarHeader(MANIFEST_NAME, manifestBytes.length));
+    await sink.write(manifestBytes);
+    await sink.write(tarPadding(manifestBytes.length));
+    await sink.write(TAR_END);
+    await sink.close();
+  } catch (error) {
+    await sink.abort().catch(() => {});
+    throw error;
+  }
+};
+
+const readManifest = async (archive: Blob, start: number, size: number): Promise<BackupManifest> => {
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(await archive.slice(start, start + size).text());
+  } catch {
+    throw new Error('The backup manifest is damaged.');
+  }
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a library backup.');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update before restoring it.');
+  }
+  return manifest;
+};
+
+// What merge mode treats as "the same track": same tags and the same audio size.
+const trackIdentity = (track: Pick<Track, 'name' | 'artist' | 'album'>, size: number) => {
+  return [track.name, track.artist ?? '', track.album ?? '', size].join('\u0000');
+};
+
+/**
+ * Restores a backup made by `exportLibrary`. Every blob is checked against its checksum
+ * before anything is written. Merge mode leaves out and reports tracks whose data is
+ * damaged; replace mode refuses a damaged backup outright.
+ */
+export const restoreLibrary = async (
+  archive: Blob,
+  mode: RestoreMode,
+  onProgress: (progress: BackupProgress) => void
+): Promise<RestoreResult> => {
+  let entries: TarEntry[];
+  try {
+    entries = await readTarEntries(archive);
+  } catch {
+    throw new Error('This file is not a library backup, or it is damaged.');
+  }
+  const entryByName = new Map(entries.map(entry => [entry.name, entry]));
+  const manifestEntry = entryByName.get(MANIFEST_NAME);
+  if (!manifestEntry) {
+    throw new Error('This file is not a library backup (it has no manifest).');
+  }
+  const manifest = await readManifest(archive, manifestEntry.start, manifestEntry.size);
+
+  const total = manifest.tracks.reduce((sum, track) => sum + Object.values(track.blobs).reduce((size, blob) => size + (blob?.size ?? 0), 0), 0);
+  let done = 0;
+  onProgress({ phase: 'verifying', done, total });
+
+  // Pass 1: check every blob against the manifest.
+  const verified: { track: BackupTrack; blobs: Partial<Record<BlobField, Blob>> }[] = [];
+  const corruptedTracks: string[] = [];
+  for (const track of manifest.tracks) {
+    const blobs: Partial<Record<BlobField, Blob>> = {};
+    let isIntact = !!track.blobs.file;
+    for (const field of BLOB_FIELDS) {
+      const info = track.blobs[field];
+      if (!info) continue;
+      const entry = entryByName.get(info.path);
+      if (!entry || entry.size !== info.size) {
+        isIntact = false;
+        done += info.size;
+        continue;
+      }
+      const blob = archive.slice(entry.start, entry.start + entry.size, info.type);
+      const crc32 = await crc32OfBlob(blob, (bytes) => {
+        done += bytes;
+        onProgress({ phase: 'verifying', done, total });
+      });
+      if (crc32 !== info.crc32) isIntact = false;
+      blobs[field] = blob;
+    }
+    if (isIntact) verified.push({ track, blobs });
+    else corruptedTracks.push(track.name);
+  }
+
+  // Replace mode deletes whatever the backup doesn't have, so it only goes ahead with all of it.
+  if (mode === 'replace' && corruptedTracks.length > 0) {
+    throw new Error(`${corruptedTracks.length} ${corruptedTracks.length === 1 ? 'song is' : 'songs are'} damaged in this backup, so your library was left as it is:\n\n${corruptedTracks.join('\n')}`);
+  }
+
+  // Pass 2: write to the library. The new records go in alongside the old ones; replace
+  // mode drops the old ones only once everything is in, and a failure undoes what was added.
+  done = 0;
+  onProgress({ phase: 'restoring', done, total });
+  const [existingTracks, existingPlaylists, existingHistory, existingSettings] = await Promise.all([
+    getAllTracksFromDB(), getAllPlaylistsFromDB(),
+    mode === 'replace' ? getAllPlayEventsFromDB() : Promise.resolve([]),
+    mode === 'replace' ? getAllSettingsFromDB() : Promise.resolve([]),
+  ]);
+  const existingByIdentity = new Map(mode === 'merge' ? existingTracks.map(track => [trackIdentity(track, track.file.size), track.id]) : []);
+  const added: LibraryEntryIds = { trackIds: [], playlistIds: [], playEventIds: [] };
+  // Library playlists merge mode appended to, as they were before.
+  const changedPlaylists: Playlist[] = [];
+  // Settings replace mode overwrote, to put back on failure.
+  const overwrittenSettings: string[] = [];
+  // Backup track ids -> ids in the library, for rebuilding playlists.
+  const idMap = new Map<number, number>();
+  const addedBackupIds = new Set<number>();
+  let skippedTracks = 0;
+  let restoredPlaylists = 0;
+
+  try {
+    for (const { track, blobs } of verified) {
+      const { id: backupId, blobs: _info, ...fields } = track;
+      const existingId = existingByIdentity.get(trackIdentity(track, blobs.file!.size));
+      if (existingId !== undefined) {
+        idMap.set(backupId, existingId);
+        skippedTracks++;
+      } else {
+        const id = await addTrackToDB({ ...fields, file: blobs.file!, coverArt: blobs.coverArt, coverThumbnail: blobs.coverThumbnail, video: blobs.video });
+        added.trackIds.push(id);
+        idMap.set(backupId, id);
+        addedBackupIds.add(backupId);
+      }
+      done += Object.values(blobs).reduce((size, blob) => size + (blob?.size ?? 0), 0);
+      onProgress({ phase: 'restoring', done, total });
+    }
+
+    // Listens follow their songs. Songs merge mode skipped keep the library's own history.
+    const history = (manifest.history ?? [])
+      .filter(event => addedBackupIds.has(event.trackId))
+      .map(({ id: _id, trackId, ...event }) => ({ ...event, trackId: idMap.get(trackId)! }));
+    if (history.length > 0) added.playEventIds = await addPlayEventsToDB(history);
+
+    for (const playlist of manifest.playlists) {
+      const trackIds = playlist.trackIds.map(id => idMap.get(id)).filter((id): id is number => id !== undefined);
+      const existing = mode === 'merge' ? existingPlaylists.find(p => p.name === playlist.name) : undefined;
+      if (playlist.smart) {
+        // Smart playlists hold rules rather than songs; a same-name one in the library wins.
+        if (!existing) added.playlistIds.push(await addPlaylistToDB({ name: playlist.name, trackIds: [], dateCreated: playlist.dateCreated, smart: playlist.smart }));
+      } else if (existing && !existing.smart) {
+        // Same name: keep the library's order and append whatever the backup adds.
+        const merged = [...existing.trackIds, ...trackIds.filter(id => !existing.trackIds.includes(id))];
+        changedPlaylists.push(existing);
+        await updatePlaylistInDB({ ...existing, trackIds: merged });
+      } else if (!existing) {
+        added.playlistIds.push(await addPlaylistToDB({ name: playlist.name, trackIds, dateCreated: playlist.dateCreated }));
+      }
+      restoredPlaylists++;
+    }
+
+    // Settings describe the whole library, so only a full replace brings them back.
+    if (mode === 'replace') {
+      for (const { key, value } of manifest.settings) {
+        overwrittenSettings.push(key);
+        await putSettingInDB(key, value);
+      }
+      await deleteLibraryEntriesInDB({
+        trackIds: existingTracks.map(track => track.id),
+        playlistIds: existingPlaylists.map(playlist => playlist.id),
+        playEventIds: existingHistory.map(event => event.id),
+      });
+    }
+  } catch (error) {
+    await deleteLibraryEntriesInDB(added).catch(undoError => console.error("Failed to undo a partial restore:", undoError));
+    for (const playlist of changedPlaylists) {
+      await updatePlaylistInDB(playlist).catch(undoError => console.error("Failed to undo a partial restore:", undoError));
+    }
+    const previousSettings = new Map(existingSettings.map(({ key, value }) => [key, value]));
+    for (const key of overwrittenSettings) {
+      await putSettingInDB(key, previousSettings.get(key)).catch(undoError => console.error("Failed to undo a partial restore:", undoError));
+    }
+    throw error;
+  }
+
+  return { restoredTracks: added.trackIds.length, skippedTracks, corruptedTracks, restoredPlaylists };
+};
@@ -0,0 +1,39 @@
+// CRC-32 (the zlib/PNG polynomial), computed by streaming so large blobs are never held in memory.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc: number, bytes: Uint8Array): number => {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xFF] ^ (c >>> 8);
+  return c;
+};
+
+/** CRC-32 of a blob as 8 hex digits. `onProgress` receives the number of bytes read per chunk. */
+export const crc32OfBlob = async (blob: Blob, onProgress?: (bytesRead: number) => void): Promise<string> => {
+  const reader = blob.stream().getReader();
+  let crc = 0xFFFFFFFF;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    crc = updateCrc32(crc, value);
+    onProgress?.(value.length);
+  }
+  return ((crc ^ 0xFFFFFFFF) >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * SHA-256 of a blob's whole contents as 64 hex digits, used to recognize the same file
+ * imported twice. Unlike the CRC this reads the blob into memory in one go.
+ */
+export const sha256OfBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
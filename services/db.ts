@@ -1,46 +1,171 @@
 
-import { Track } from '../types';
+import { Track, Playlist, PlayEvent } from '../types';
 
 const DB_NAME = 'OfflineMusicPlayerDB';
-const DB_VERSION = 1;
 const STORE_NAME = 'tracks';
+const PLAYLIST_STORE_NAME = 'playlists';
+const SETTINGS_STORE_NAME = 'settings';
+const WAVEFORM_STORE_NAME = 'waveforms';
+const HISTORY_STORE_NAME = 'history';
 
-let db: IDBDatabase | null = null;
+// A migration upgrades the schema by exactly one version inside the `versionchange`
+// transaction. Anything it throws aborts that transaction, which rolls the whole
+// upgrade back and leaves the database at its previous version.
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
 
-const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    if (db) {
-      resolve(db);
-      return;
+// Walks every record in a store and writes back the ones `update` reports as changed.
+const updateEachRecord = <T>(store: IDBObjectStore, update: (record: T) => boolean) => {
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    if (update(cursor.value)) {
+      cursor.update(cursor.value);
+    }
+    cursor.continue();
+  };
+};
+
+// MIGRATIONS[n] takes the database from version n to n + 1. Only ever append to this list.
+const MIGRATIONS: Migration[] = [
+  // 0 -> 1: the original tracks store.
+  (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    }
+  },
+  // 1 -> 2: lookup indexes, and a dateAdded for tracks imported before we recorded one.
+  (_db, transaction) => {
+    const store = transaction.objectStore(STORE_NAME);
+    for (const field of ['name', 'artist', 'album', 'dateAdded']) {
+      if (!store.indexNames.contains(field)) {
+        store.createIndex(field, field);
+      }
+    }
+    const now = Date.now();
+    updateEachRecord(store, (track: Track) => {
+      if (track.dateAdded) return false;
+      track.dateAdded = now;
+      return true;
+    });
+  },
+  // 2 -> 3: user playlists.
+  (db) => {
+    if (!db.objectStoreNames.contains(PLAYLIST_STORE_NAME)) {
+      db.createObjectStore(PLAYLIST_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    }
+  },
+  // 3 -> 4: key/value settings, e.g. the equalizer and its saved presets.
+  (db) => {
+    if (!db.objectStoreNames.contains(SETTINGS_STORE_NAME)) {
+      db.createObjectStore(SETTINGS_STORE_NAME, { keyPath: 'key' });
+    }
+  },
+  // 4 -> 5: precomputed waveforms, kept apart from tracks since they can always be recomputed.
+  (db) => {
+    if (!db.objectStoreNames.contains(WAVEFORM_STORE_NAME)) {
+      db.createObjectStore(WAVEFORM_STORE_NAME, { keyPath: 'trackId' });
     }
+  },
+  // 5 -> 6: the listening history behind play counts and statistics.
+  (db) => {
+    if (!db.objectStoreNames.contains(HISTORY_STORE_NAME)) {
+      const store = db.createObjectStore(HISTORY_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('trackId', 'trackId');
+      store.createIndex('playedAt', 'playedAt');
+    }
+  },
+  // 6 -> 7: content hashes for spotting the same file imported twice. Older tracks get
+  // theirs when something first needs it, since hashing reads the whole file.
+  (_db, transaction) => {
+    const store = transaction.objectStore(STORE_NAME);
+    if (!store.indexNames.contains('contentHash')) {
+      store.createIndex('contentHash', 'contentHash');
+    }
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
 
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let isSettled = false;
+
+    const fail = (message: string) => {
+      if (isSettled) return;
+      isSettled = true;
+      reject(message);
+    };
 
-    request.onerror = () => reject("Error opening database");
+    request.onerror = () => {
+      if (request.error?.name === 'VersionError') {
+        fail("The library was upgraded by a newer version of the app. Please reload this tab.");
+      } else {
+        fail(`Error opening database: ${request.error?.message ?? 'unknown error'}`);
+      }
+    };
 
-    request.onsuccess = (event) => {
-      db = (event.target as IDBOpenDBRequest).result;
-      resolve(db);
+    // Another tab still holds an older connection open. We give up rather than
+    // wait indefinitely; no migration has run yet, so nothing needs rolling back.
+    request.onblocked = () => {
+      fail("Library upgrade is blocked by another open tab of this app. Close the other tabs and reload.");
+    };
+
+    request.onsuccess = () => {
+      const dbInstance = request.result;
+      if (isSettled) {
+        // The upgrade went through after we had already reported it as blocked.
+        dbInstance.close();
+        return;
+      }
+      // Step aside when another tab needs to upgrade, so we never block it.
+      dbInstance.onversionchange = () => {
+        dbInstance.close();
+        dbPromise = null;
+      };
+      isSettled = true;
+      resolve(dbInstance);
     };
 
     request.onupgradeneeded = (event) => {
-      const dbInstance = (event.target as IDBOpenDBRequest).result;
-      if (!dbInstance.objectStoreNames.contains(STORE_NAME)) {
-        dbInstance.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      const dbInstance = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        try {
+          MIGRATIONS[version](dbInstance, transaction);
+        } catch (error) {
+          console.error(`Database migration to version ${version + 1} failed:`, error);
+          fail(`Database migration to version ${version + 1} failed: ${(error as Error).message}`);
+          transaction.abort();
+          return;
+        }
       }
     };
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
   });
+
+  return dbPromise;
 };
 
-export const addTrackToDB = async (track: { name: string; file: File }): Promise<number> => {
+// What adding a track rejects with when the browser refuses to store any more data.
+export const STORAGE_FULL_ERROR = "Storage is full";
+
+export const addTrackToDB = async (track: Omit<Track, 'id'>): Promise<number> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
     const request = store.add(track);
 
-    request.onsuccess = () => resolve(request.result as number);
-    request.onerror = () => reject("Error adding track");
+    // Running out of quota only shows up when the transaction commits, so wait for that.
+    transaction.oncomplete = () => resolve(request.result as number);
+    transaction.onabort = () => reject(transaction.error?.name === 'QuotaExceededError' ? STORAGE_FULL_ERROR : "Error adding track");
   });
 };
 
@@ -59,12 +184,30 @@ export const getAllTracksFromDB = async (): Promise<Track[]> => {
 export const deleteTrackFromDB = async (id: number): Promise<void> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
-        const transaction = db.transaction([STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.delete(id);
+        const transaction = db.transaction([STORE_NAME, PLAYLIST_STORE_NAME, WAVEFORM_STORE_NAME], 'readwrite');
+        transaction.objectStore(STORE_NAME).delete(id);
+        transaction.objectStore(WAVEFORM_STORE_NAME).delete(id);
+        // Drop the track from every playlist in the same transaction so none is left dangling.
+        updateEachRecord(transaction.objectStore(PLAYLIST_STORE_NAME), (playlist: Playlist) => {
+            if (!playlist.trackIds.includes(id)) return false;
+            playlist.trackIds = playlist.trackIds.filter(trackId => trackId !== id);
+            return true;
+        });
 
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject("Error deleting track");
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject("Error deleting track");
+    });
+};
+
+export const getTracksByContentHashFromDB = async (contentHash: string): Promise<Track[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME], 'readonly');
+        const index = transaction.objectStore(STORE_NAME).index('contentHash');
+        const request = index.getAll(contentHash);
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject("Error looking up tracks by content");
     });
 };
 
@@ -79,3 +222,226 @@ export const updateTrackInDB = async (track: Track): Promise<void> => {
         request.onerror = () => reject("Error updating track");
     });
 };
+
+export const getAllPlaylistsFromDB = async (): Promise<Playlist[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PLAYLIST_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(PLAYLIST_STORE_NAME);
+        const request = store.getAll();
+
+        request.onsuccess = () => resolve(request.result as Playlist[]);
+        request.onerror = () => reject("Error getting playlists");
+    });
+};
+
+export const addPlaylistToDB = async (playlist: Omit<Playlist, 'id'>): Promise<number> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PLAYLIST_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(PLAYLIST_STORE_NAME);
+        const request = store.add(playlist);
+
+        request.onsuccess = () => resolve(request.result as number);
+        request.onerror = () => reject("Error adding playlist");
+    });
+};
+
+export const updatePlaylistInDB = async (playlist: Playlist): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PLAYLIST_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(PLAYLIST_STORE_NAME);
+        const request = store.put(playlist);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject("Error updating playlist");
+    });
+};
+
+export const deletePlaylistFromDB = async (id: number): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PLAYLIST_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(PLAYLIST_STORE_NAME);
+        const request = store.delete(id);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject("Error deleting playlist");
+    });
+};
+
+export const getSettingFromDB = async <T,>(key: string): Promise<T | undefined> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SETTINGS_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(SETTINGS_STORE_NAME);
+        const request = store.get(key);
+
+        request.onsuccess = () => resolve(request.result?.value as T | undefined);
+        request.onerror = () => reject(`Error getting setting "${key}"`);
+    });
+};
+
+export const putSettingInDB = async <T,>(key: string, value: T): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SETTINGS_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(SETTINGS_STORE_NAME);
+        const request = store.put({ key, value });
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(`Error saving setting "${key}"`);
+    });
+};
+
+export const getAllSettingsFromDB = async (): Promise<{ key: string; value: unknown }[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SETTINGS_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(SETTINGS_STORE_NAME);
+        const request = store.getAll();
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject("Error getting settings");
+    });
+};
+
+export const getWaveformFromDB = async (trackId: number): Promise<Uint8Array | undefined> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([WAVEFORM_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(WAVEFORM_STORE_NAME);
+        const request = store.get(trackId);
+
+        request.onsuccess = () => resolve(request.result?.peaks as Uint8Array | undefined);
+        request.onerror = () => reject("Error getting waveform");
+    });
+};
+
+export const putWaveformInDB = async (trackId: number, peaks: Uint8Array): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([WAVEFORM_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(WAVEFORM_STORE_NAME);
+        const request = store.put({ trackId, peaks });
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject("Error saving waveform");
+    });
+};
+
+export const deleteWaveformFromDB = async (trackId: number): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([WAVEFORM_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(WAVEFORM_STORE_NAME);
+        const request = store.delete(trackId);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject("Error deleting waveform");
+    });
+};
+
+export const addPlayEventToDB = async (event: Omit<PlayEvent, 'id'>): Promise<number> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([HISTORY_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(HISTORY_STORE_NAME);
+        const request = store.add(event);
+
+        request.onsuccess = () => resolve(request.result as number);
+        request.onerror = () => reject("Error adding to listening history");
+    });
+};
+
+export const updatePlayEventInDB = async (event: PlayEvent): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([HISTORY_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(HISTORY_STORE_NAME);
+        const request = store.put(event);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject("Error updating listening history");
+    });
+};
+
+export const getAllPlayEventsFromDB = async (): Promise<PlayEvent[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([HISTORY_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(HISTORY_STORE_NAME);
+        const request = store.getAll();
+
+        request.onsuccess = () => resolve(request.result as PlayEvent[]);
+        request.onerror = () => reject("Error getting listening history");
+    });
+};
+
+/** Adds many history entries in one transaction, e.g. when restoring a backup. Resolves to their ids. */
+export const addPlayEventsToDB = async (events: Omit<PlayEvent, 'id'>[]): Promise<number[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([HISTORY_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(HISTORY_STORE_NAME);
+        const ids: number[] = [];
+        for (const event of events) {
+            store.add(event).onsuccess = (e) => ids.push((e.target as IDBRequest<IDBValidKey>).result as number);
+        }
+
+        transaction.oncomplete = () => resolve(ids);
+        transaction.onerror = () => reject("Error adding to listening history");
+    });
+};
+
+/** Moves the listening history of `fromIds` over to `toId`, e.g. when merging duplicate copies of a song. */
+export const reassignPlayEventsInDB = async (fromIds: number[], toId: number): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([HISTORY_STORE_NAME], 'readwrite');
+        const index = transaction.objectStore(HISTORY_STORE_NAME).index('trackId');
+        for (const fromId of fromIds) {
+            index.openCursor(IDBKeyRange.only(fromId)).onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                cursor.update({ ...cursor.value, trackId: toId });
+                cursor.continue();
+            };
+        }
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject("Error updating listening history");
+    });
+};
+
+// Records written by a restore, or found in the library before one.
+export interface LibraryEntryIds {
+    trackIds: number[];
+    playlistIds: number[];
+    playEventIds: number[];
+}
+
+/**
+ * Deletes the given tracks (with their waveforms), playlists and history entries in one
+ * transaction, so a restore can drop the old library once the new one is in, or undo itself.
+ */
+export const deleteLibraryEntriesInDB = async ({ trackIds, playlistIds, playEventIds }: LibraryEntryIds): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME, PLAYLIST_STORE_NAME, WAVEFORM_STORE_NAME, HISTORY_STORE_NAME], 'readwrite');
+        for (const id of trackIds) {
+            transaction.objectStore(STORE_NAME).delete(id);
+            transaction.objectStore(WAVEFORM_STORE_NAME).delete(id);
+        }
+        for (const id of playlistIds) {
+            transaction.objectStore(PLAYLIST_STORE_NAME).delete(id);
+        }
+        for (const id of playEventIds) {
+            transaction.objectStore(HISTORY_STORE_NAME).delete(id);
+        }
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject("Error deleting library entries");
+    });
+};
@@ -0,0 +1,126 @@
+import { Track } from '../types';
+import { sha256OfBlob } from './checksum';
+import { normalizeText } from './search';
+
+// What to do with an imported file the library already has.
+export type DuplicateChoice = 'skip' | 'replace' | 'keepBoth';
+
+// Different encodes of one recording rarely come out more than this far apart.
+const NEAR_DURATION_SECONDS = 2;
+
+export interface DuplicateGroup {
+  // 'exact' copies are byte-for-byte the same file; 'near' ones share tags and length
+  // but were encoded differently.
+  kind: 'exact' | 'near';
+  tracks: Track[];
+}
+
+/** The file's content hash, or undefined where hashing isn't available (outside a secure context). */
+export const hashTrackFile = async (file: Blob): Promise<string | undefined> => {
+  try {
+    return await sha256OfBlob(file);
+  } catch (error) {
+    console.warn("Couldn't hash file:", error);
+    return undefined;
+  }
+};
+
+/**
+ * Hashes the tracks that could have an identical copy (another track of the same file
+ * size) but haven't been hashed yet. Returns just the newly hashed tracks.
+ */
+export const hashPossibleCopies = async (tracks: Track[]): Promise<Track[]> => {
+  const sizeCounts = new Map<number, number>();
+  for (const track of tracks) sizeCounts.set(track.file.size, (sizeCounts.get(track.file.size) ?? 0) + 1);
+  const hashed: Track[] = [];
+  for (const track of tracks) {
+    if (track.contentHash || (sizeCounts.get(track.file.size) ?? 0) < 2) continue;
+    const contentHash = await hashTrackFile(track.file);
+    if (contentHash) hashed.push({ ...track, contentHash });
+  }
+  return hashed;
+};
+
+const nearKey = (track: Track): string | null => {
+  // Without an artist, a title alone ("Intro", "Track 1") says too little.
+  if (!track.artist || track.duration === undefined) return null;
+  return `${normalizeText(track.name.trim())}\u0000${normalizeText(track.artist.trim())}`;
+};
+
+/**
+ * Groups identical files and near-duplicates. Identical files are only recognized once
+ * hashed, see `hashPossibleCopies`.
+ */
+export const findDuplicateGroups = (tracks: Track[]): DuplicateGroup[] => {
+  // Union-find over track indexes, joining tracks with the same hash or near-identical tags.
+  const parent = tracks.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const join = (a: number, b: number) => { parent[root(a)] = root(b); };
+
+  const byHash = new Map<string, number>();
+  const byKey = new Map<string, number[]>();
+  tracks.forEach((track, i) => {
+    if (track.contentHash) {
+      const first = byHash.get(track.contentHash);
+      if (first === undefined) byHash.set(track.contentHash, i);
+      else join(i, first);
+    }
+    const key = nearKey(track);
+    if (key) byKey.set(key, [...(byKey.get(key) ?? []), i]);
+  });
+  for (const indexes of byKey.values()) {
+    for (let a = 0; a < indexes.length; a++) {
+      for (let b = a + 1; b < indexes.length; b++) {
+        const difference = Math.abs(tracks[indexes[a]].duration! - tracks[indexes[b]].duration!);
+        if (difference <= NEAR_DURATION_SECONDS) join(indexes[a], indexes[b]);
+      }
+    }
+  }
+
+  const components = new Map<number, Track[]>();
+  tracks.forEach((track, i) => components.set(root(i), [...(components.get(root(i)) ?? []), track]));
+  return Array.from(components.values())
+    .filter(group => group.length > 1)
+    .map(group => {
+      const hash = group[0].contentHash;
+      const isExact = !!hash && group.every(track => track.contentHash === hash);
+      return { kind: isExact ? 'exact' as const : 'near' as const, tracks: group };
+    });
+};
+
+// Lossless first, then the higher bitrate, then the bigger file.
+const qualityScore = (track: Track): number[] => [track.bitDepth ? 1 : 0, track.bitrate ?? 0, track.file.size];
+
+/**
+ * The copy worth keeping by default: for identical files the one with the most history,
+ * otherwise the best-sounding encode.
+ */
+export const pickCopyToKeep = (group: DuplicateGroup): Track => {
+  const compare = group.kind === 'exact'
+    ? (a: Track, b: Track) => (b.playCount ?? 0) - (a.playCount ?? 0) || a.dateAdded - b.dateAdded
+    : (a: Track, b: Track) => {
+      const [scoreA, scoreB] = [qualityScore(a), qualityScore(b)];
+      const i = scoreA.findIndex((value, index) => value !== scoreB[index]);
+      return i === -1 ? a.dateAdded - b.dateAdded : scoreB[i] - scoreA[i];
+    };
+  return [...group.tracks].sort(compare)[0];
+};
+
+/**
+ * The kept copy, carrying over what the others had and it lacks: play counts add up,
+ * and the user's own lyrics, artwork, video and rating fill gaps.
+ */
+export const mergeDuplicateInto = (keep: Track, others: Track[]): Track => {
+  return others.reduce<Track>((merged, other) => ({
+    ...merged,
+    playCount: (merged.playCount ?? 0) + (other.playCount ?? 0) || undefined,
+    skipCount: (merged.skipCount ?? 0) + (other.skipCount ?? 0) || undefined,
+    lastPlayed: Math.max(merged.lastPlayed ?? 0, other.lastPlayed ?? 0) || undefined,
+    rating: merged.rating ?? other.rating,
+    lyrics: merged.lyrics ?? other.lyrics,
+    coverArt: merged.coverArt ?? other.coverArt,
+    coverThumbnail: merged.coverArt ? merged.coverThumbnail : other.coverThumbnail,
+    video: merged.video ?? other.video,
+    dateAdded: Math.min(merged.dateAdded, other.dateAdded),
+  }), keep);
+};
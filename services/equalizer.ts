@@ -0,0 +1,67 @@
+import { Track } from '../types';
+
+// Centre frequencies of the ten bands, in Hz (ISO octave bands).
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_MAX_GAIN_DB = 12;
+
+export interface EqualizerPreset {
+  id: string;
+  name: string;
+  preamp: number;
+  gains: number[];
+  isBuiltIn?: boolean;
+}
+
+export interface EqualizerSettings {
+  enabled: boolean;
+  // The preset the curve came from, or null once the user has moved a slider by hand.
+  presetId: string | null;
+  preamp: number;
+  gains: number[];
+  limiter: boolean;
+}
+
+// What the audio graph should apply right now.
+export interface EqualizerCurve {
+  preamp: number;
+  gains: number[];
+  limiter: boolean;
+}
+
+// Presets that boost have a negative preamp so the limiter rarely has to step in.
+export const BUILT_IN_PRESETS: EqualizerPreset[] = [
+  { id: 'flat', name: 'Flat', preamp: 0, gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0], isBuiltIn: true },
+  { id: 'bass-boost', name: 'Bass Boost', preamp: -4, gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0], isBuiltIn: true },
+  { id: 'vocal', name: 'Vocal', preamp: -2, gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1], isBuiltIn: true },
+  { id: 'loudness', name: 'Loudness', preamp: -3, gains: [5, 4, 2, 0, -1, -1, 0, 2, 4, 5], isBuiltIn: true },
+];
+
+export const DEFAULT_EQUALIZER_SETTINGS: EqualizerSettings = {
+  enabled: false,
+  presetId: 'flat',
+  preamp: 0,
+  gains: BUILT_IN_PRESETS[0].gains,
+  limiter: true,
+};
+
+export const FLAT_CURVE: EqualizerCurve = { preamp: 0, gains: BUILT_IN_PRESETS[0].gains, limiter: true };
+
+export const findPreset = (id: string | null | undefined, customPresets: EqualizerPreset[]): EqualizerPreset | undefined => {
+  if (!id) return undefined;
+  return BUILT_IN_PRESETS.find(p => p.id === id) || customPresets.find(p => p.id === id);
+};
+
+/**
+ * A track's own EQ preset wins over the global settings. Overrides pointing at a
+ * custom preset that has since been deleted quietly fall back to the global curve.
+ */
+export const resolveEqualizerCurve = (settings: EqualizerSettings, customPresets: EqualizerPreset[], trackPresetId: Track['eqPresetId'] | null): EqualizerCurve => {
+  const override = findPreset(trackPresetId, customPresets);
+  if (override) {
+    return { preamp: override.preamp, gains: override.gains, limiter: settings.limiter };
+  }
+  if (!settings.enabled) {
+    return { ...FLAT_CURVE, limiter: settings.limiter };
+  }
+  return { preamp: settings.preamp, gains: settings.gains, limiter: settings.limiter };
+};
@@ -0,0 +1,158 @@
+// Turns dropped or picked files and folders into import items: each audio file together
+// with the lyrics and cover image found next to it, and whatever its folder path and file
+// name say about it.
+
+export interface ImportFile {
+  file: File;
+  // Path relative to what was dropped or picked, e.g. "Artist/Album/01 Song.mp3".
+  path: string;
+}
+
+export interface ImportItem {
+  file: File;
+  // A .lrc file with the same name in the same folder, or the folder's only one.
+  lyricsFile?: File;
+  // The folder's cover.jpg, folder.png and the like.
+  coverFile?: File;
+  // Fallbacks for missing tags, taken from the Artist/Album/NN Title.ext layout.
+  folderArtist?: string;
+  folderAlbum?: string;
+  fileTitle: string;
+  fileTrackNumber?: number;
+}
+
+const AUDIO_EXTENSIONS = ['mp3', 'flac', 'ogg', 'oga', 'opus', 'm4a', 'mp4', 'aac', 'wav', 'aif', 'aiff', 'wma', 'weba'];
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'gif'];
+// Preferred first when a folder has several.
+const COVER_NAMES = ['cover', 'folder', 'front', 'album', 'albumart'];
+// "CD1", "Disc 2" and the like sit between the album folder and its tracks.
+const DISC_FOLDER = /^(cd|disc|disk)\s*\d+$/i;
+// "01 Title", "1. Title", "01 - Title". A bare "99 Problems" is left alone.
+const TRACK_PREFIX = /^(?:(\d{1,3})\s*[.\-_]\s*|(0\d)\s+)(.+)$/;
+
+const splitPath = (path: string) => {
+  const parts = path.split('/').filter(Boolean);
+  const fileName = parts.pop() ?? path;
+  const dot = fileName.lastIndexOf('.');
+  return {
+    folders: parts,
+    folder: parts.join('/'),
+    baseName: dot > 0 ? fileName.slice(0, dot) : fileName,
+    extension: dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '',
+  };
+};
+
+const isAudioFile = (file: File, extension: string): boolean => {
+  return file.type.startsWith('audio/') || AUDIO_EXTENSIONS.includes(extension);
+};
+
+/** Files from an <input>, keeping their folder paths when a whole directory was picked. */
+export const filesFromList = (files: FileList): ImportFile[] => {
+  return Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+};
+
+const readAllEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    // readEntries hands the listing over in batches, ending with an empty one.
+    const readBatch = () => reader.readEntries(batch => {
+      if (batch.length === 0) {
+        resolve(entries);
+      } else {
+        entries.push(...batch);
+        readBatch();
+      }
+    }, reject);
+    readBatch();
+  });
+};
+
+const walkEntry = async (entry: FileSystemEntry, results: ImportFile[]): Promise<void> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    // fullPath starts with "/".
+    results.push({ file, path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    for (const child of children) {
+      await walkEntry(child, results);
+    }
+  }
+};
+
+/**
+ * Everything that was dropped, walking into folders recursively. Entries have to be taken
+ * from the DataTransfer while the drop event is still being handled, before any await.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<ImportFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return filesFromList(dataTransfer.files);
+
+  const results: ImportFile[] = [];
+  for (const entry of entries) {
+    try {
+      await walkEntry(entry, results);
+    } catch (error) {
+      console.warn(`Couldn't read "${entry.fullPath}":`, error);
+    }
+  }
+  return results;
+};
+
+const parseFileName = (baseName: string): { title: string; trackNumber?: number } => {
+  const match = baseName.match(TRACK_PREFIX);
+  if (!match) return { title: baseName };
+  return { title: match[3].trim(), trackNumber: Number(match[1] ?? match[2]) };
+};
+
+// Artist/Album/track, skipping a disc folder under the album.
+const folderMetadata = (folders: string[]): { folderArtist?: string; folderAlbum?: string } => {
+  const dirs = folders.length > 0 && DISC_FOLDER.test(folders[folders.length - 1]) ? folders.slice(0, -1) : folders;
+  return { folderAlbum: dirs[dirs.length - 1], folderArtist: dirs[dirs.length - 2] };
+};
+
+/** Pairs each audio file with its folder's lyrics and cover. Other files are dropped. */
+export const groupImportFiles = (files: ImportFile[]): ImportItem[] => {
+  const byFolder = new Map<string, { audio: ImportFile[]; lyrics: ImportFile[]; images: ImportFile[] }>();
+  for (const importFile of files) {
+    const { folder, extension } = splitPath(importFile.path);
+    const group = byFolder.get(folder) ?? { audio: [], lyrics: [], images: [] };
+    byFolder.set(folder, group);
+    if (isAudioFile(importFile.file, extension)) group.audio.push(importFile);
+    else if (extension === 'lrc') group.lyrics.push(importFile);
+    else if (IMAGE_EXTENSIONS.includes(extension)) group.images.push(importFile);
+  }
+
+  const coverOf = (folder: string): ImportFile | undefined => {
+    const images = byFolder.get(folder)?.images ?? [];
+    return COVER_NAMES
+      .map(name => images.find(image => splitPath(image.path).baseName.toLowerCase() === name))
+      .find(Boolean);
+  };
+
+  const items: ImportItem[] = [];
+  for (const [folder, { audio, lyrics }] of byFolder) {
+    // A disc folder usually leaves the cover to the album folder above it.
+    const parts = folder.split('/');
+    const cover = coverOf(folder)
+      ?? (DISC_FOLDER.test(parts[parts.length - 1]) ? coverOf(parts.slice(0, -1).join('/')) : undefined);
+    for (const audioFile of audio) {
+      const { folders, baseName } = splitPath(audioFile.path);
+      const lyricsFile = lyrics.find(lrc => splitPath(lrc.path).baseName === baseName)
+        ?? (audio.length === 1 && lyrics.length === 1 ? lyrics[0] : undefined);
+      const { title, trackNumber } = parseFileName(baseName);
+      items.push({
+        file: audioFile.file,
+        lyricsFile: lyricsFile?.file,
+        coverFile: cover?.file,
+        ...folderMetadata(folders),
+        fileTitle: title,
+        fileTrackNumber: trackNumber,
+      });
+    }
+  }
+  return items;
+};
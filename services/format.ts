@@ -0,0 +1,40 @@
+import { Track } from '../types';
+
+/** A track length as m:ss, or h:mm:ss from an hour up. */
+export const formatDuration = (seconds?: number): string => {
+  if (seconds === undefined || !isFinite(seconds)) return '';
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor(total / 60) % 60;
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/** The combined length of a list of tracks, e.g. "2 hr 5 min". */
+export const formatTotalDuration = (tracks: Track[]): string => {
+  const minutes = Math.round(tracks.reduce((sum, track) => sum + (track.duration ?? 0), 0) / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes} min`;
+  return minutes % 60 === 0 ? `${hours} hr` : `${hours} hr ${minutes % 60} min`;
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/** A short technical summary such as "FLAC · 24-bit · 96 kHz" or "MP3 · 320 kbps". */
+export const formatAudioInfo = (track: Track): string => {
+  // Lossless formats are better described by their depth and rate than their bitrate.
+  const parts = track.bitDepth
+    ? [track.codec, `${track.bitDepth}-bit`, track.sampleRate && `${track.sampleRate / 1000} kHz`]
+    : [track.codec, track.bitrate && `${track.bitrate} kbps`];
+  return parts.filter(Boolean).join(' · ');
+};
@@ -0,0 +1,162 @@
+import { PlayEvent, Track } from '../types';
+
+// A listen counts as a play once half the track, or four minutes of it, has been heard.
+const PLAY_THRESHOLD_FRACTION = 0.5;
+const PLAY_THRESHOLD_MAX_SECONDS = 4 * 60;
+// Position updates further apart than this are seeks, not listening.
+const MAX_LISTEN_STEP_SECONDS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StatsPeriod = 'week' | 'month' | 'all';
+
+export const STATS_PERIODS: { period: StatsPeriod; label: string }[] = [
+  { period: 'week', label: 'Last 7 days' },
+  { period: 'month', label: 'Last 30 days' },
+  { period: 'all', label: 'All time' },
+];
+
+const PERIOD_DAYS: Record<Exclude<StatsPeriod, 'all'>, number> = { week: 7, month: 30 };
+
+export const playThreshold = (duration: number): number => {
+  return duration > 0 && isFinite(duration)
+    ? Math.min(duration * PLAY_THRESHOLD_FRACTION, PLAY_THRESHOLD_MAX_SECONDS)
+    : PLAY_THRESHOLD_MAX_SECONDS;
+};
+
+export interface ListeningCallbacks {
+  // The listen crossed the play threshold. Resolves to the stored history entry.
+  onPlay: (trackId: number, startedAt: number, listenedSeconds: number) => Promise<PlayEvent>;
+  // A listen that counted as a play has ended; brings its listening time up to date.
+  onPlayFinished: (event: PlayEvent, listenedSeconds: number) => void;
+  // The user moved on before the threshold.
+  onSkip: (trackId: number, startedAt: number, listenedSeconds: number) => void;
+}
+
+export interface ListeningTracker {
+  // Starts a listen, wrapping up any previous one as if the user moved on.
+  start: (trackId: number) => void;
+  // Fed with every playback position update of the current listen.
+  progress: (time: number, duration: number) => void;
+  // Wraps up the current listen. `completed` means it played through rather than being left early.
+  finish: (completed: boolean) => void;
+}
+
+/**
+ * Turns position updates into plays and skips. Only time that actually plays counts,
+ * so seeking to the end of a track doesn't make it a play.
+ */
+export const createListeningTracker = (callbacks: ListeningCallbacks): ListeningTracker => {
+  let session: {
+    trackId: number;
+    startedAt: number;
+    listened: number;
+    lastTime: number | null;
+    play: Promise<PlayEvent> | null;
+  } | null = null;
+
+  const finish = (completed: boolean) => {
+    if (!session) return;
+    const { trackId, startedAt, listened, play } = session;
+    session = null;
+    if (play) {
+      play.then(event => callbacks.onPlayFinished(event, listened)).catch(() => {});
+    } else if (!completed && listened > 0) {
+      callbacks.onSkip(trackId, startedAt, listened);
+    }
+  };
+
+  return {
+    start: (trackId) => {
+      finish(false);
+      session = { trackId, startedAt: Date.now(), listened: 0, lastTime: null, play: null };
+    },
+    progress: (time, duration) => {
+      if (!session) return;
+      if (session.lastTime !== null) {
+        const step = time - session.lastTime;
+        if (step > 0 && step < MAX_LISTEN_STEP_SECONDS) session.listened += step;
+      }
+      session.lastTime = time;
+      if (!session.play && session.listened >= playThreshold(duration)) {
+        session.play = callbacks.onPlay(session.trackId, session.startedAt, session.listened);
+        // A failed write shouldn't turn the listen into a skip later.
+        session.play.catch(error => console.error("Failed to record play:", error));
+      }
+    },
+    finish,
+  };
+};
+
+export interface RankedTrack {
+  track: Track;
+  plays: number;
+}
+
+export interface RankedArtist {
+  artist: string;
+  plays: number;
+}
+
+export interface ListeningStats {
+  listenedSeconds: number;
+  plays: number;
+  skips: number;
+  topTracks: RankedTrack[];
+  topArtists: RankedArtist[];
+}
+
+const rankByCount = <T>(counts: Map<T, number>, limit: number): [T, number][] => {
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit);
+};
+
+/** Totals and top lists for the history entries that fall within `period`. */
+export const computeListeningStats = (
+  events: PlayEvent[],
+  tracks: Track[],
+  period: StatsPeriod,
+  limit = 10,
+  now = Date.now()
+): ListeningStats => {
+  const since = period === 'all' ? 0 : now - PERIOD_DAYS[period] * DAY_MS;
+  const tracksById = new Map(tracks.map(track => [track.id, track]));
+  const trackPlays = new Map<number, number>();
+  const artistPlays = new Map<string, number>();
+  const stats: ListeningStats = { listenedSeconds: 0, plays: 0, skips: 0, topTracks: [], topArtists: [] };
+
+  for (const event of events) {
+    if (event.playedAt < since) continue;
+    stats.listenedSeconds += event.listenedSeconds;
+    if (event.kind === 'skip') {
+      stats.skips++;
+      continue;
+    }
+    stats.plays++;
+    // Deleted tracks still count towards the totals, but can't be listed.
+    const track = tracksById.get(event.trackId);
+    if (!track) continue;
+    trackPlays.set(track.id, (trackPlays.get(track.id) ?? 0) + 1);
+    const artist = track.albumArtist || track.artist;
+    if (artist) artistPlays.set(artist, (artistPlays.get(artist) ?? 0) + 1);
+  }
+
+  stats.topTracks = rankByCount(trackPlays, limit).map(([id, plays]) => ({ track: tracksById.get(id)!, plays }));
+  stats.topArtists = rankByCount(artistPlays, limit).map(([artist, plays]) => ({ artist, plays }));
+  return stats;
+};
+
+/** The most recently played tracks, newest first, each listed once. */
+export const getRecentlyPlayed = (events: PlayEvent[], tracks: Track[], limit = 20): { track: Track; playedAt: number }[] => {
+  const tracksById = new Map(tracks.map(track => [track.id, track]));
+  const seen = new Set<number>();
+  const recent: { track: Track; playedAt: number }[] = [];
+  for (const event of [...events].sort((a, b) => b.playedAt - a.playedAt)) {
+    if (event.kind !== 'play' || seen.has(event.trackId)) continue;
+    const track = tracksById.get(event.trackId);
+    if (!track) continue;
+    seen.add(event.trackId);
+    recent.push({ track, playedAt: event.playedAt });
+    if (recent.length === limit) break;
+  }
+  return recent;
+};
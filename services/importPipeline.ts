@@ -0,0 +1,138 @@
+// Runs imports through a small worker pool so one slow or broken file neither holds up
+// nor takes down the rest, and checks each file actually plays before it's stored.
+
+// Parsing tags and test-decoding are heavy enough that a couple at a time is plenty.
+export const IMPORT_CONCURRENCY = 2;
+// How long a file gets to show it can start playing.
+const TRIAL_DECODE_TIMEOUT_MS = 15000;
+
+const MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg; codecs=opus',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  aif: 'audio/aiff',
+  aiff: 'audio/aiff',
+  wma: 'audio/x-ms-wma',
+  weba: 'audio/webm',
+};
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+  // Names of the files being worked on right now.
+  current: string[];
+}
+
+export interface ImportFailure<T> {
+  item: T;
+  reason: string;
+}
+
+export interface ImportRunResult<T> {
+  failures: ImportFailure<T>[];
+  // Items never started because the run was cancelled.
+  cancelled: T[];
+}
+
+export interface ImportStatus<T> {
+  progress: ImportProgress;
+  isRunning: boolean;
+  // Songs added or replaced so far, and duplicates left out.
+  imported: number;
+  skipped: number;
+  failures: ImportFailure<T>[];
+  cancelled: T[];
+}
+
+const errorReason = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  if (error instanceof Error && error.message) return error.message;
+  return 'Unknown error';
+};
+
+// The file's own type and the one its extension suggests. Systems label some formats
+// differently (audio/x-flac, audio/x-m4a), so either being playable is enough.
+const mimeTypesOf = (file: File): string[] => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return [file.type, MIME_TYPES[extension]].filter(Boolean);
+};
+
+// Loads the file into a media element, the same way playback does, until it can play.
+const trialDecode = (file: File): Promise<void> => new Promise((resolve, reject) => {
+  const audio = document.createElement('audio');
+  const url = URL.createObjectURL(file);
+  let isDone = false;
+  const finish = (error?: string) => {
+    if (isDone) return;
+    isDone = true;
+    clearTimeout(timer);
+    audio.removeAttribute('src');
+    audio.load();
+    URL.revokeObjectURL(url);
+    if (error) reject(new Error(error));
+    else resolve();
+  };
+  const timer = setTimeout(() => finish("Timed out while checking that the file plays"), TRIAL_DECODE_TIMEOUT_MS);
+  audio.preload = 'auto';
+  audio.oncanplay = () => finish();
+  audio.onerror = () => finish(audio.error?.code === MediaError.MEDIA_ERR_DECODE
+    ? "The file is damaged and couldn't be decoded"
+    : "This browser can't play this file's format");
+  audio.src = url;
+});
+
+/** Rejects with a readable reason when the browser won't be able to play the file. */
+export const validateAudioFile = async (file: File): Promise<void> => {
+  if (file.size === 0) throw new Error("The file is empty");
+  const mimeTypes = mimeTypesOf(file);
+  const audio = document.createElement('audio');
+  // An unknown type isn't proof of anything; the trial decode decides.
+  if (mimeTypes.length > 0 && mimeTypes.every(type => audio.canPlayType(type) === '')) {
+    throw new Error(`This browser can't play ${mimeTypes[0].split(';')[0]} files`);
+  }
+  await trialDecode(file);
+};
+
+/**
+ * Feeds `items` through `process`, at most `concurrency` at a time. A failing item is
+ * recorded with its reason and the rest carry on. Aborting `signal` lets the items in
+ * progress finish and leaves the others unstarted.
+ */
+export const runImportQueue = async <T>(
+  items: T[],
+  process: (item: T) => Promise<void>,
+  options: { nameOf: (item: T) => string; signal: AbortSignal; onProgress: (progress: ImportProgress) => void; concurrency?: number }
+): Promise<ImportRunResult<T>> => {
+  const { nameOf, signal, onProgress, concurrency = IMPORT_CONCURRENCY } = options;
+  const failures: ImportFailure<T>[] = [];
+  const current: T[] = [];
+  let next = 0;
+  let done = 0;
+  const report = () => onProgress({ done, total: items.length, current: current.map(nameOf) });
+
+  const worker = async () => {
+    while (next < items.length && !signal.aborted) {
+      const item = items[next++];
+      current.push(item);
+      report();
+      try {
+        await process(item);
+      } catch (error) {
+        failures.push({ item, reason: errorReason(error) });
+      }
+      current.splice(current.indexOf(item), 1);
+      done++;
+      report();
+    }
+  };
+
+  report();
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return { failures, cancelled: items.slice(next) };
+};
@@ -0,0 +1,176 @@
+import { NormalizationMode, Track } from '../types';
+import { yieldToBrowser } from './scheduling';
+
+// Integrated loudness as in ITU-R BS.1770 / EBU R128, which is also what ReplayGain 2.0
+// measures. Gains are expressed towards the ReplayGain reference level.
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+// Decoding keeps the whole file in memory as 32-bit floats: at this rate a 15-minute stereo
+// track takes about 170 MB, which mobile tabs survive. Longer files are skipped. The
+// K-weighting filters are derived for this rate, and what it cuts off above 12 kHz carries
+// too little energy to move the result.
+const MAX_ANALYSIS_SECONDS = 15 * 60;
+const ANALYSIS_SAMPLE_RATE = 24000;
+const SUB_BLOCK_SECONDS = 0.1;
+// Gating blocks are 400ms long and overlap by 75%, i.e. four 100ms sub-blocks.
+const SUB_BLOCKS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+// How many samples to filter before giving the UI thread a turn.
+const SAMPLES_PER_SLICE = 1 << 18;
+
+export interface LoudnessResult {
+  // Null for silence, which has no meaningful loudness.
+  loudness: number | null;
+  peak: number;
+}
+
+type Biquad = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+// The two K-weighting stages (a high shelf modelling the head, then a high-pass),
+// derived for any sample rate the same way libebur128 does it.
+const kWeightingFilters = (sampleRate: number): [Biquad, Biquad] => {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+  return [shelf, highPass];
+};
+
+const energyToLoudness = (energy: number) => -0.691 + 10 * Math.log10(energy);
+
+const tooLongError = (seconds: number) => new Error(`Too long to analyse (${Math.round(seconds / 60)} minutes)`);
+
+/**
+ * Decodes a file and measures its gated integrated loudness and sample peak.
+ * Filtering runs in slices so a long track doesn't freeze the page. A known
+ * `duration` turns overlong files away before decoding them.
+ */
+export const analyzeLoudness = async (file: Blob, duration?: number): Promise<LoudnessResult> => {
+  if (duration !== undefined && duration > MAX_ANALYSIS_SECONDS) throw tooLongError(duration);
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  if (buffer.duration > MAX_ANALYSIS_SECONDS) throw tooLongError(buffer.duration);
+
+  const subBlockLength = Math.round(buffer.sampleRate * SUB_BLOCK_SECONDS);
+  const subBlockCount = Math.floor(buffer.length / subBlockLength);
+  const subBlockEnergy = new Float64Array(subBlockCount);
+  const [shelf, highPass] = kWeightingFilters(buffer.sampleRate);
+  let peak = 0;
+
+  // Channels beyond stereo are summed with the same weight; surround files are rare here.
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+    for (let start = 0; start < subBlockCount * subBlockLength; start += SAMPLES_PER_SLICE) {
+      const end = Math.min(start + SAMPLES_PER_SLICE, subBlockCount * subBlockLength);
+      for (let i = start; i < end; i++) {
+        const x = samples[i];
+        const abs = x < 0 ? -x : x;
+        if (abs > peak) peak = abs;
+        const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+        const z = highPass.b0 * y + highPass.b1 * y1 + highPass.b2 * y2 - highPass.a1 * z1 - highPass.a2 * z2;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+        z2 = z1; z1 = z;
+        subBlockEnergy[Math.floor(i / subBlockLength)] += z * z;
+      }
+      await yieldToBrowser();
+    }
+  }
+
+  const blockEnergies: number[] = [];
+  for (let i = 0; i + SUB_BLOCKS_PER_BLOCK <= subBlockCount; i++) {
+    let sum = 0;
+    for (let j = i; j < i + SUB_BLOCKS_PER_BLOCK; j++) sum += subBlockEnergy[j];
+    blockEnergies.push(sum / (subBlockLength * SUB_BLOCKS_PER_BLOCK));
+  }
+
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+  const aboveAbsolute = blockEnergies.filter(energy => energy > 0 && energyToLoudness(energy) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) {
+    return { loudness: null, peak };
+  }
+  const relativeGate = energyToLoudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(energy => energyToLoudness(energy) > relativeGate);
+  return { loudness: energyToLoudness(mean(gated)), peak };
+};
+
+export const loudnessToGain = (loudness: number | null): number => {
+  return loudness === null ? 0 : REPLAYGAIN_REFERENCE_LUFS - loudness;
+};
+
+export const needsLoudnessAnalysis = (track: Track): boolean => track.trackGain === undefined;
+
+const albumKey = (track: Track): string | null => {
+  if (!track.album) return null;
+  return `${(track.albumArtist || track.artist || '').toLowerCase()}\u0000${track.album.toLowerCase()}`;
+};
+
+/**
+ * Album gain and peak for every analysed track, grouped by album artist and album.
+ * The album's loudness is the duration-weighted power mean of its tracks' loudness, an
+ * approximation of gating all of the album's blocks together that needs no re-decoding.
+ * Only returns tracks whose values actually change. Tracks tagged by the user's own
+ * ReplayGain scanner keep their album values.
+ */
+export const computeAlbumGains = (tracks: Track[]): Track[] => {
+  const albums = new Map<string, Track[]>();
+  for (const track of tracks) {
+    const key = albumKey(track);
+    if (key === null || track.replayGainSource !== 'analysis' || track.trackGain === undefined) continue;
+    albums.set(key, [...(albums.get(key) ?? []), track]);
+  }
+
+  const updated: Track[] = [];
+  for (const members of albums.values()) {
+    let weightedPower = 0;
+    let totalWeight = 0;
+    let albumPeak = 0;
+    for (const track of members) {
+      const weight = track.duration || 1;
+      weightedPower += weight * Math.pow(10, (REPLAYGAIN_REFERENCE_LUFS - track.trackGain!) / 10);
+      totalWeight += weight;
+      albumPeak = Math.max(albumPeak, track.trackPeak ?? 0);
+    }
+    const albumGain = REPLAYGAIN_REFERENCE_LUFS - 10 * Math.log10(weightedPower / totalWeight);
+    for (const track of members) {
+      if (track.albumGain !== albumGain || track.albumPeak !== albumPeak) {
+        updated.push({ ...track, albumGain, albumPeak });
+      }
+    }
+  }
+  return updated;
+};
+
+/**
+ * The gain in dB to play `track` at. Album mode falls back to the track gain when no
+ * album gain is known, and a gain is never allowed to push the peak past full scale.
+ */
+export const getNormalizationGain = (track: Track, mode: NormalizationMode): number => {
+  if (mode === 'off') return 0;
+  const useAlbum = mode === 'album' && track.albumGain !== undefined;
+  const gain = useAlbum ? track.albumGain : track.trackGain;
+  const peak = useAlbum ? track.albumPeak : track.trackPeak;
+  if (gain === undefined) return 0;
+  return peak ? Math.min(gain, -20 * Math.log10(peak)) : gain;
+};
@@ -0,0 +1,106 @@
+export interface LyricLine {
+  // Seconds into the track. Unsynced lyrics have every line at 0.
+  time: number;
+  text: string;
+}
+
+export interface ParsedLyrics {
+  lines: LyricLine[];
+  // False for plain text without timestamps, which is shown but not highlighted.
+  isSynced: boolean;
+  title?: string;
+  artist?: string;
+  album?: string;
+}
+
+// [mm:ss], [mm:ss.xx], [mm:ss.xxx], and the [mm:ss:xx] some editors write.
+const TIMESTAMP = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const LEADING_TIMESTAMPS = /^(\s*\[\d+:\d{1,2}(?:[.:]\d{1,3})?\])+/;
+const HEADER_TAG = /^\s*\[([a-z#]+):(.*)\]\s*$/i;
+// Enhanced LRC word timings such as <00:12.34>; we highlight whole lines only.
+const WORD_TIMESTAMP = /<\d+:\d{1,2}(?:[.:]\d{1,3})?>/g;
+
+const fractionToSeconds = (fraction?: string) => {
+  if (!fraction) return 0;
+  // ".5" is half a second, ".05" five hundredths, ".005" five thousandths.
+  return parseInt(fraction, 10) / Math.pow(10, fraction.length);
+};
+
+/**
+ * Parses LRC lyrics: any number of timestamps per line, the ar/ti/al header tags, and
+ * `[offset:±ms]` (positive shows lines earlier). Text without timestamps comes back
+ * as unsynced lines.
+ */
+export const parseLrc = (text: string): ParsedLyrics => {
+  const result: ParsedLyrics = { lines: [], isSynced: false };
+  const plainLines: string[] = [];
+  let offsetSeconds = 0;
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const leading = rawLine.match(LEADING_TIMESTAMPS);
+    if (leading) {
+      const lyric = rawLine.slice(leading[0].length).replace(WORD_TIMESTAMP, '').trim();
+      for (const [, minutes, seconds, fraction] of leading[0].matchAll(TIMESTAMP)) {
+        const time = parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + fractionToSeconds(fraction);
+        result.lines.push({ time, text: lyric });
+      }
+      continue;
+    }
+
+    const tag = rawLine.match(HEADER_TAG);
+    if (tag) {
+      const value = tag[2].trim();
+      switch (tag[1].toLowerCase()) {
+        case 'ar': result.artist = value || undefined; break;
+        case 'ti': result.title = value || undefined; break;
+        case 'al': result.album = value || undefined; break;
+        case 'offset': offsetSeconds = (parseInt(value, 10) || 0) / 1000; break;
+      }
+      continue;
+    }
+
+    plainLines.push(rawLine.trim());
+  }
+
+  if (result.lines.length > 0) {
+    result.isSynced = true;
+    result.lines = result.lines
+      .map(line => ({ ...line, time: Math.max(0, line.time - offsetSeconds) }))
+      .sort((a, b) => a.time - b.time);
+    // Blank timestamped lines mark instrumental gaps; only trim them from the very end.
+    while (result.lines.length > 0 && !result.lines[result.lines.length - 1].text) result.lines.pop();
+    return result;
+  }
+
+  // Plain text: drop leading and trailing blank lines, keep the stanza breaks in between.
+  const first = plainLines.findIndex(line => line);
+  const last = plainLines.length - 1 - [...plainLines].reverse().findIndex(line => line);
+  result.lines = first === -1 ? [] : plainLines.slice(first, last + 1).map(line => ({ time: 0, text: line }));
+  return result;
+};
+
+/** Index of the line being sung at `time`, or -1 before the first one. */
+export const findActiveLyricIndex = (lines: LyricLine[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < lines.length && lines[i].time <= time; i++) index = i;
+  return index;
+};
+
+/** Formats seconds as an LRC timestamp, e.g. `[01:02.35]`. */
+export const formatLrcTimestamp = (time: number): string => {
+  const centiseconds = Math.round(Math.max(0, time) * 100);
+  const minutes = Math.floor(centiseconds / 6000);
+  const seconds = Math.floor(centiseconds / 100) % 60;
+  return `[${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds % 100).padStart(2, '0')}]`;
+};
+
+/** Writes timed lines back out as LRC, with the ti/ar/al header tags when known. */
+export const formatLrc = (lines: LyricLine[], tags: { title?: string; artist?: string; album?: string } = {}): string => {
+  const header = [
+    tags.title && `[ti:${tags.title}]`,
+    tags.artist && `[ar:${tags.artist}]`,
+    tags.album && `[al:${tags.album}]`,
+  ].filter(Boolean);
+  const body = [...lines].sort((a, b) => a.time - b.time).map(line => `${formatLrcTimestamp(line.time)}${line.text}`);
+  return [...header, ...body].join('\n') + '\n';
+};
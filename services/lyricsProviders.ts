@@ -0,0 +1,136 @@
+import { GoogleGenAI } from "@google/genai";
+import { CachedLyrics, Track } from '../types';
+import { readEmbeddedLyrics } from './metadata';
+import { parseLrc } from './lyrics';
+
+export type LyricsProviderId = 'local' | 'embedded' | 'gemini' | 'mock';
+
+export interface LyricsProvider {
+  id: LyricsProviderId;
+  label: string;
+  description: string;
+  // Results that cost a network call are cached on the track and only refreshed on request.
+  isCached: boolean;
+  isAvailable: () => boolean;
+  // Raw LRC or plain text, or null when this provider has nothing for the track.
+  fetchLyrics: (track: Track) => Promise<string | null>;
+}
+
+export interface LyricsProviderSettings {
+  // Tried in this order; the first provider with lyrics wins.
+  order: LyricsProviderId[];
+  disabled: LyricsProviderId[];
+}
+
+export const DEFAULT_LYRICS_PROVIDER_SETTINGS: LyricsProviderSettings = {
+  order: ['local', 'embedded', 'gemini', 'mock'],
+  // The mock provider is for offline development and would otherwise shadow nothing useful.
+  disabled: ['mock'],
+};
+
+const API_KEY = process.env.API_KEY;
+if (!API_KEY) {
+  console.warn("API_KEY is not set. Lyrics generation will be disabled.");
+}
+
+const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
+
+const localProvider: LyricsProvider = {
+  id: 'local',
+  label: 'Attached files',
+  description: 'Lyrics you attached to a song in its editor.',
+  isCached: false,
+  isAvailable: () => true,
+  fetchLyrics: async (track) => track.lyrics || null,
+};
+
+const embeddedProvider: LyricsProvider = {
+  id: 'embedded',
+  label: 'Embedded tags',
+  description: 'Lyrics stored inside the audio file itself.',
+  isCached: false,
+  isAvailable: () => true,
+  fetchLyrics: (track) => readEmbeddedLyrics(track.file),
+};
+
+const geminiProvider: LyricsProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  description: 'Generates timed lyrics online. Results are saved with the song.',
+  isCached: true,
+  isAvailable: () => ai !== null && navigator.onLine,
+  fetchLyrics: async (track) => {
+    const prompt = `Generate karaoke-style lyrics for the song titled "${track.name}"${track.artist ? ` by ${track.artist}` : ''}. Provide timestamps in the format [mm:ss.SSS] for each line. Ensure every line with text has a timestamp.`;
+    const response = await ai!.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+    });
+    // Generated lyrics are only useful with timestamps.
+    const text = response.text ?? '';
+    return parseLrc(text).isSynced ? text : null;
+  },
+};
+
+// Placeholder lines every few seconds, so lyrics UI can be worked on without a network or quota.
+const MOCK_LINE_SECONDS = 4;
+const mockProvider: LyricsProvider = {
+  id: 'mock',
+  label: 'Mock (offline testing)',
+  description: 'Placeholder timed lines for development without a network.',
+  isCached: false,
+  isAvailable: () => true,
+  fetchLyrics: async (track) => {
+    const lineCount = Math.max(8, Math.floor((track.duration ?? 120) / MOCK_LINE_SECONDS));
+    const lines = Array.from({ length: lineCount }, (_, i) => {
+      const time = i * MOCK_LINE_SECONDS;
+      const stamp = `${String(Math.floor(time / 60)).padStart(2, '0')}:${String(time % 60).padStart(2, '0')}.00`;
+      return `[${stamp}]${track.name}, line ${i + 1}`;
+    });
+    return lines.join('\n');
+  },
+};
+
+export const LYRICS_PROVIDERS: Record<LyricsProviderId, LyricsProvider> = {
+  local: localProvider,
+  embedded: embeddedProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/** The providers to try, in order. Ids missing from older saved settings are appended. */
+export const getProviderOrder = (settings: LyricsProviderSettings): LyricsProvider[] => {
+  const order = [...settings.order, ...DEFAULT_LYRICS_PROVIDER_SETTINGS.order.filter(id => !settings.order.includes(id))];
+  return order
+    .filter(id => LYRICS_PROVIDERS[id] && !settings.disabled.includes(id))
+    .map(id => LYRICS_PROVIDERS[id]);
+};
+
+export interface ResolvedLyrics {
+  text: string;
+  providerId: LyricsProviderId;
+  // Set when the text was freshly fetched from a cached provider and should be saved on the track.
+  newCache?: CachedLyrics;
+}
+
+/**
+ * Walks the providers in order and returns the first lyrics found. A provider's cached
+ * result on the track is reused unless `refresh` is set, in which case cached providers
+ * are asked again. Provider errors are logged and skipped over.
+ */
+export const resolveLyrics = async (track: Track, settings: LyricsProviderSettings, refresh = false): Promise<ResolvedLyrics | null> => {
+  for (const provider of getProviderOrder(settings)) {
+    if (provider.isCached && !refresh && track.lyricsCache?.providerId === provider.id) {
+      return { text: track.lyricsCache.text, providerId: provider.id };
+    }
+    if (!provider.isAvailable()) continue;
+    try {
+      const text = await provider.fetchLyrics(track);
+      if (!text || parseLrc(text).lines.length === 0) continue;
+      const newCache = provider.isCached ? { providerId: provider.id, text, fetchedAt: Date.now() } : undefined;
+      return { text, providerId: provider.id, newCache };
+    } catch (error) {
+      console.error(`Lyrics provider "${provider.id}" failed:`, error);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,107 @@
+import { Track } from '../types';
+import { loadImage, canvasToBlob } from './artwork';
+
+// Lock screens, notification shades and car displays each pick whichever size fits best.
+const ARTWORK_SIZES = [96, 128, 192, 256, 384, 512];
+const DEFAULT_SEEK_OFFSET_SECONDS = 10;
+
+export interface MediaSessionActions {
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  seekTo: (time: number) => void;
+  getCurrentTime: () => number;
+}
+
+export const isMediaSessionSupported = () => 'mediaSession' in navigator;
+
+/**
+ * Square, centre-cropped PNG copies of the cover at the sizes OSes ask for. Sizes
+ * larger than the original are left out rather than upscaled. The caller owns
+ * (and must revoke) the returned object URLs.
+ */
+export const createArtwork = async (cover: Blob): Promise<MediaImage[]> => {
+  const sourceUrl = URL.createObjectURL(cover);
+  try {
+    const image = await loadImage(sourceUrl);
+    const side = Math.min(image.naturalWidth, image.naturalHeight);
+    const sizes = ARTWORK_SIZES.filter(size => size <= side);
+    if (sizes.length === 0) sizes.push(side);
+
+    const artwork: MediaImage[] = [];
+    for (const size of sizes) {
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const context = canvas.getContext('2d');
+      if (!context) break;
+      context.drawImage(image, (image.naturalWidth - side) / 2, (image.naturalHeight - side) / 2, side, side, 0, 0, size, size);
+      const blob = await canvasToBlob(canvas);
+      if (blob) {
+        artwork.push({ src: URL.createObjectURL(blob), sizes: `${size}x${size}`, type: 'image/png' });
+      }
+    }
+    return artwork;
+  } finally {
+    URL.revokeObjectURL(sourceUrl);
+  }
+};
+
+export const setMediaSessionMetadata = (track: Track | null, artwork: MediaImage[] = []) => {
+  if (!isMediaSessionSupported()) return;
+  navigator.mediaSession.metadata = track
+    ? new MediaMetadata({ title: track.name, artist: track.artist ?? '', album: track.album ?? '', artwork })
+    : null;
+};
+
+export const setMediaSessionPlaybackState = (state: MediaSessionPlaybackState) => {
+  if (!isMediaSessionSupported()) return;
+  navigator.mediaSession.playbackState = state;
+};
+
+/** Tells the OS where playback is, so its scrubber can run on by itself between updates. */
+export const setMediaSessionPosition = (position: number, duration: number) => {
+  if (!isMediaSessionSupported() || !navigator.mediaSession.setPositionState) return;
+  try {
+    if (!isFinite(duration) || duration <= 0) {
+      navigator.mediaSession.setPositionState();
+      return;
+    }
+    navigator.mediaSession.setPositionState({ duration, playbackRate: 1, position: Math.min(Math.max(position, 0), duration) });
+  } catch (error) {
+    console.warn('Failed to update media session position:', error);
+  }
+};
+
+/** Registers the OS transport controls. Returns a function that removes them again. */
+export const registerMediaSessionActions = (actions: MediaSessionActions): (() => void) => {
+  if (!isMediaSessionSupported()) return () => {};
+  const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ['play', () => actions.play()],
+    ['pause', () => actions.pause()],
+    ['nexttrack', () => actions.next()],
+    ['previoustrack', () => actions.previous()],
+    ['seekto', (details) => {
+      if (details.seekTime !== undefined) actions.seekTo(details.seekTime);
+    }],
+    ['seekbackward', (details) => {
+      actions.seekTo(Math.max(0, actions.getCurrentTime() - (details.seekOffset ?? DEFAULT_SEEK_OFFSET_SECONDS)));
+    }],
+    ['seekforward', (details) => {
+      actions.seekTo(actions.getCurrentTime() + (details.seekOffset ?? DEFAULT_SEEK_OFFSET_SECONDS));
+    }],
+  ];
+
+  const setHandlers = (clear: boolean) => {
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, clear ? null : handler);
+      } catch {
+        // Older browsers throw for actions they don't know about.
+      }
+    }
+  };
+  setHandlers(false);
+  return () => setHandlers(true);
+};
@@ -0,0 +1,928 @@
+import { Track } from '../types';
+
+// Tags we can pull out of an audio file. `title` becomes `Track.name` on import.
+export type TrackMetadata = Partial<Pick<Track,
+  'artist' | 'album' | 'albumArtist' | 'trackNumber' | 'discNumber' | 'year' | 'genre' | 'coverArt'
+  | 'trackGain' | 'trackPeak' | 'albumGain' | 'albumPeak'
+>> & { title?: string };
+
+// Everything the readers collect. Embedded lyrics are read on demand by the lyrics
+// providers instead of being copied onto the track at import.
+type ParsedTags = TrackMetadata & { lyrics?: string };
+
+// How far into an Ogg stream we look for the comment header (it can hold base64 artwork).
+const MAX_OGG_HEADER_BYTES = 16 * 1024 * 1024;
+
+const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+  'Folk', 'Folk-Rock', 'National Folk', 'Swing', 'Fast Fusion', 'Bebop', 'Latin', 'Revival', 'Celtic', 'Bluegrass',
+  'Avantgarde', 'Gothic Rock', 'Progressive Rock', 'Psychedelic Rock', 'Symphonic Rock', 'Slow Rock', 'Big Band', 'Chorus', 'Easy Listening', 'Acoustic',
+  'Humour', 'Speech', 'Chanson', 'Opera', 'Chamber Music', 'Sonata', 'Symphony', 'Booty Bass', 'Primus', 'Porn Groove',
+  'Satire', 'Slow Jam', 'Club', 'Tango', 'Samba', 'Folklore', 'Ballad', 'Power Ballad', 'Rhythmic Soul', 'Freestyle',
+  'Duet', 'Punk Rock', 'Drum Solo', 'A Cappella', 'Euro-House', 'Dance Hall', 'Goa', 'Drum & Bass', 'Club-House', 'Hardcore',
+  'Terror', 'Indie', 'BritPop', 'Negerpunk', 'Polsk Punk', 'Beat', 'Christian Gangsta Rap', 'Heavy Metal', 'Black Metal', 'Crossover',
+  'Contemporary Christian', 'Christian Rock', 'Merengue', 'Salsa', 'Thrash Metal', 'Anime', 'JPop', 'Synthpop',
+];
+
+// --- Byte helpers ---
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<Uint8Array> => {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+};
+
+const ascii = (bytes: Uint8Array, start: number, end: number): string => {
+  return String.fromCharCode(...bytes.subarray(start, end));
+};
+
+const uint32BE = (bytes: Uint8Array, offset: number): number => {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+};
+
+const uint32LE = (bytes: Uint8Array, offset: number): number => {
+  return ((bytes[offset + 3] << 24) | (bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset]) >>> 0;
+};
+
+const syncSafe = (bytes: Uint8Array, offset: number): number => {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+};
+
+const utf8 = (bytes: Uint8Array): string => new TextDecoder('utf-8').decode(bytes);
+
+const parseNumber = (value?: string): number | undefined => {
+  const match = value?.match(/\d+/);
+  const number = match ? parseInt(match[0], 10) : NaN;
+  return number > 0 ? number : undefined;
+};
+
+const parseYear = (value?: string): number | undefined => {
+  const match = value?.match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : undefined;
+};
+
+const parseGenre = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  // ID3 genres may be "(17)", "(17)Rock" or a bare "17" pointing into the v1 list.
+  const match = value.match(/^\((\d+)\)(.*)$/) || value.match(/^(\d+)()$/);
+  if (match) {
+    return match[2].trim() || ID3V1_GENRES[parseInt(match[1], 10)] || undefined;
+  }
+  return value.trim() || undefined;
+};
+
+// ReplayGain values look like "-6.48 dB" and "0.988553".
+const parseGain = (value?: string): number | undefined => {
+  const gain = parseFloat(value ?? '');
+  return isFinite(gain) ? gain : undefined;
+};
+
+const parsePeak = (value?: string): number | undefined => {
+  const peak = parseFloat(value ?? '');
+  return peak > 0 ? peak : undefined;
+};
+
+// Opus stores R128 gains as Q7.8 integers towards -23 LUFS; ReplayGain aims 5 dB louder.
+const parseR128Gain = (value?: string): number | undefined => {
+  const gain = parseInt(value ?? '', 10);
+  return isFinite(gain) ? gain / 256 + 5 : undefined;
+};
+
+const replayGainFrom = (get: (key: string) => string | undefined): TrackMetadata => ({
+  trackGain: parseGain(get('REPLAYGAIN_TRACK_GAIN')),
+  trackPeak: parsePeak(get('REPLAYGAIN_TRACK_PEAK')),
+  albumGain: parseGain(get('REPLAYGAIN_ALBUM_GAIN')),
+  albumPeak: parsePeak(get('REPLAYGAIN_ALBUM_PEAK')),
+});
+
+const sniffImageType = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return 'image/png';
+  if (bytes[0] === 0x47 && bytes[1] === 0x49) return 'image/gif';
+  if (bytes[0] === 0x52 && bytes[1] === 0x49) return 'image/webp';
+  return 'image/jpeg';
+};
+
+const toImageBlob = (bytes: Uint8Array, mimeType?: string): Blob => {
+  const type = mimeType && mimeType.startsWith('image/') ? mimeType : sniffImageType(bytes);
+  return new Blob([bytes.slice()], { type });
+};
+
+const assignIfMissing = <K extends keyof ParsedTags>(meta: ParsedTags, key: K, value: ParsedTags[K]) => {
+  if (value !== undefined && value !== '' && meta[key] === undefined) {
+    meta[key] = value;
+  }
+};
+
+const assignMissing = (meta: ParsedTags, values: ParsedTags) => {
+  for (const key of Object.keys(values) as (keyof ParsedTags)[]) {
+    assignIfMissing(meta, key, values[key]);
+  }
+};
+
+// --- ID3v2 (MP3, AAC, and the occasional FLAC) ---
+
+const decodeId3Text = (bytes: Uint8Array, encoding: number): string => {
+  let label = 'iso-8859-1';
+  let data = bytes;
+  if (encoding === 1) {
+    if (data[0] === 0xFE && data[1] === 0xFF) {
+      label = 'utf-16be';
+      data = data.subarray(2);
+    } else {
+      label = 'utf-16le';
+      if (data[0] === 0xFF && data[1] === 0xFE) data = data.subarray(2);
+    }
+  } else if (encoding === 2) {
+    label = 'utf-16be';
+  } else if (encoding === 3) {
+    label = 'utf-8';
+  }
+  // v2.4 allows several null-separated values; we only keep the first.
+  const text = new TextDecoder(label).decode(data).replace(/\uFEFF/g, '');
+  return text.split('\0').find(part => part.trim()) ?? '';
+};
+
+// Like decodeId3Text, but for long free text (lyrics) where only a trailing null is dropped.
+const decodeId3FullText = (bytes: Uint8Array, encoding: number): string => {
+  const label = encoding === 1 ? 'utf-16' : encoding === 2 ? 'utf-16be' : encoding === 3 ? 'utf-8' : 'iso-8859-1';
+  return new TextDecoder(label).decode(bytes).replace(/\uFEFF/g, '').replace(/\0+$/, '');
+};
+
+const findId3Terminator = (bytes: Uint8Array, start: number, encoding: number): number => {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < bytes.length; i += 2) {
+      if (bytes[i] === 0 && bytes[i + 1] === 0) return i;
+    }
+    return bytes.length;
+  }
+  const index = bytes.indexOf(0, start);
+  return index === -1 ? bytes.length : index;
+};
+
+const removeUnsynchronisation = (bytes: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    out[length++] = bytes[i];
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, length);
+};
+
+const ID3_TEXT_FRAMES: Record<string, keyof TrackMetadata> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TPE2: 'albumArtist', TP2: 'albumArtist',
+  TRCK: 'trackNumber', TRK: 'trackNumber',
+  TPOS: 'discNumber', TPA: 'discNumber',
+  TYER: 'year', TYE: 'year', TDRC: 'year', TDOR: 'year',
+  TCON: 'genre', TCO: 'genre',
+};
+
+const parseId3Picture = (data: Uint8Array, isV22: boolean): { type: number; blob: Blob } | null => {
+  const encoding = data[0];
+  let offset = 1;
+  let mimeType: string | undefined;
+  if (isV22) {
+    const format = ascii(data, 1, 4).toUpperCase();
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const end = findId3Terminator(data, offset, 0);
+    mimeType = ascii(data, offset, end).toLowerCase();
+    if (mimeType && !mimeType.includes('/')) mimeType = `image/${mimeType}`;
+    offset = end + 1;
+  }
+  const pictureType = data[offset++];
+  const descriptionEnd = findId3Terminator(data, offset, encoding);
+  offset = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (offset >= data.length) return null;
+  return { type: pictureType, blob: toImageBlob(data.subarray(offset), mimeType) };
+};
+
+// Bytes taken by an ID3v2 tag, including its header and optional footer.
+const id3v2Size = (header: Uint8Array): number => 10 + syncSafe(header, 6) + (header[5] & 0x10 ? 10 : 0);
+
+const readId3v2 = async (file: Blob, meta: ParsedTags): Promise<number> => {
+  const header = await readBytes(file, 0, 10);
+  const version = header[3];
+  const flags = header[5];
+  const tagSize = syncSafe(header, 6);
+  const totalSize = id3v2Size(header);
+  if (version < 2 || version > 4) return totalSize;
+
+  let tag = await readBytes(file, 10, 10 + tagSize);
+  if (version < 4 && flags & 0x80) tag = removeUnsynchronisation(tag);
+
+  let offset = 0;
+  if (flags & 0x40) {
+    offset = version === 4 ? syncSafe(tag, 0) : uint32BE(tag, 0) + 4;
+  }
+
+  const isV22 = version === 2;
+  const idLength = isV22 ? 3 : 4;
+  const headerLength = isV22 ? 6 : 10;
+  const values: Record<string, string> = {};
+  // User-defined text frames, keyed by their upper-cased description.
+  const userText: Record<string, string> = {};
+  let picture: { type: number; blob: Blob } | null = null;
+
+  while (offset + headerLength <= tag.length) {
+    const id = ascii(tag, offset, offset + idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Reached padding.
+
+    let size: number;
+    if (isV22) size = (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5];
+    else if (version === 4) size = syncSafe(tag, offset + 4);
+    else size = uint32BE(tag, offset + 4);
+
+    const formatFlags = isV22 ? 0 : tag[offset + 9];
+    let data = tag.subarray(offset + headerLength, offset + headerLength + size);
+    offset += headerLength + size;
+
+    if (version === 4) {
+      if (formatFlags & 0x0C) continue; // Compressed or encrypted.
+      if (formatFlags & 0x40) data = data.subarray(1);
+      if (formatFlags & 0x01) data = data.subarray(4);
+      if (formatFlags & 0x02) data = removeUnsynchronisation(data);
+    } else if (version === 3) {
+      if (formatFlags & 0xC0) continue;
+      if (formatFlags & 0x20) data = data.subarray(1);
+    }
+    if (data.length === 0) continue;
+
+    if (ID3_TEXT_FRAMES[id]) {
+      values[ID3_TEXT_FRAMES[id]] ??= decodeId3Text(data.subarray(1), data[0]);
+    } else if ((id === 'USLT' || id === 'ULT') && values.lyrics === undefined) {
+      // Encoding, a 3-letter language code, a content descriptor, then the text.
+      const encoding = data[0];
+      const descriptorEnd = findId3Terminator(data, 4, encoding);
+      const textStart = descriptorEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+      values.lyrics = decodeId3FullText(data.subarray(textStart), encoding);
+    } else if (id === 'TXXX' || id === 'TXX') {
+      const encoding = data[0];
+      const descriptionEnd = findId3Terminator(data, 1, encoding);
+      const description = decodeId3Text(data.subarray(1, descriptionEnd), encoding).toUpperCase();
+      const valueStart = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+      userText[description] ??= decodeId3Text(data.subarray(valueStart), encoding);
+    } else if (id === 'APIC' || id === 'PIC') {
+      const parsed = parseId3Picture(data, isV22);
+      // Prefer the front cover (type 3), otherwise keep whichever came first.
+      if (parsed && (!picture || (parsed.type === 3 && picture.type !== 3))) {
+        picture = parsed;
+      }
+    }
+  }
+
+  assignMissing(meta, {
+    title: values.title,
+    artist: values.artist,
+    album: values.album,
+    albumArtist: values.albumArtist,
+    trackNumber: parseNumber(values.trackNumber),
+    discNumber: parseNumber(values.discNumber),
+    year: parseYear(values.year),
+    genre: parseGenre(values.genre),
+    coverArt: picture?.blob,
+    lyrics: values.lyrics || userText.LYRICS || userText.UNSYNCEDLYRICS,
+    ...replayGainFrom(key => userText[key]),
+  });
+  return totalSize;
+};
+
+const readId3v1 = async (file: Blob, meta: ParsedTags) => {
+  if (file.size < 128) return;
+  const tag = await readBytes(file, file.size - 128, file.size);
+  if (ascii(tag, 0, 3) !== 'TAG') return;
+  const text = (start: number, end: number) => decodeId3Text(tag.subarray(start, end), 0).trim();
+  assignMissing(meta, {
+    title: text(3, 33),
+    artist: text(33, 63),
+    album: text(63, 93),
+    year: parseYear(text(93, 97)),
+    // ID3v1.1 stores the track number in the last byte of the comment.
+    trackNumber: tag[125] === 0 && tag[126] ? tag[126] : undefined,
+    genre: ID3V1_GENRES[tag[127]],
+  });
+};
+
+// --- Vorbis comments (FLAC, Ogg Vorbis, Opus) ---
+
+const parseFlacPicture = (data: Uint8Array): { type: number; blob: Blob } | null => {
+  let offset = 0;
+  const type = uint32BE(data, offset); offset += 4;
+  const mimeLength = uint32BE(data, offset); offset += 4;
+  const mimeType = ascii(data, offset, offset + mimeLength); offset += mimeLength;
+  const descriptionLength = uint32BE(data, offset); offset += 4 + descriptionLength;
+  offset += 16; // Width, height, colour depth, palette size.
+  const dataLength = uint32BE(data, offset); offset += 4;
+  if (offset + dataLength > data.length) return null;
+  return { type, blob: toImageBlob(data.subarray(offset, offset + dataLength), mimeType) };
+};
+
+const base64ToBytes = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const parseVorbisComments = (data: Uint8Array): Record<string, string[]> => {
+  const comments: Record<string, string[]> = {};
+  let offset = 0;
+  const vendorLength = uint32LE(data, offset);
+  offset += 4 + vendorLength;
+  const count = uint32LE(data, offset);
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = uint32LE(data, offset);
+    offset += 4;
+    const entry = utf8(data.subarray(offset, offset + length));
+    offset += length;
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator).toUpperCase();
+    (comments[key] ??= []).push(entry.slice(separator + 1));
+  }
+  return comments;
+};
+
+const applyVorbisComments = (comments: Record<string, string[]>, meta: ParsedTags, picture?: { type: number; blob: Blob } | null) => {
+  const first = (...keys: string[]) => keys.map(key => comments[key]?.[0]).find(value => value?.trim());
+
+  for (const encoded of comments.METADATA_BLOCK_PICTURE ?? []) {
+    try {
+      const parsed = parseFlacPicture(base64ToBytes(encoded));
+      if (parsed && (!picture || (parsed.type === 3 && picture.type !== 3))) picture = parsed;
+    } catch (error) {
+      console.warn('Skipping malformed METADATA_BLOCK_PICTURE:', error);
+    }
+  }
+  if (!picture && comments.COVERART?.[0]) {
+    try {
+      picture = { type: 3, blob: toImageBlob(base64ToBytes(comments.COVERART[0]), comments.COVERARTMIME?.[0]) };
+    } catch (error) {
+      console.warn('Skipping malformed COVERART:', error);
+    }
+  }
+
+  assignMissing(meta, {
+    title: first('TITLE'),
+    artist: first('ARTIST'),
+    album: first('ALBUM'),
+    albumArtist: first('ALBUMARTIST', 'ALBUM ARTIST'),
+    trackNumber: parseNumber(first('TRACKNUMBER')),
+    discNumber: parseNumber(first('DISCNUMBER')),
+    year: parseYear(first('DATE', 'YEAR', 'ORIGINALDATE')),
+    genre: parseGenre(first('GENRE')),
+    coverArt: picture?.blob,
+    lyrics: comments.LYRICS?.[0] ?? comments.UNSYNCEDLYRICS?.[0],
+    ...replayGainFrom(key => first(key)),
+  });
+  assignMissing(meta, {
+    trackGain: parseR128Gain(first('R128_TRACK_GAIN')),
+    albumGain: parseR128Gain(first('R128_ALBUM_GAIN')),
+  });
+};
+
+const readFlac = async (file: Blob, start: number, meta: ParsedTags) => {
+  let offset = start;
+  let comments: Record<string, string[]> = {};
+  let picture: { type: number; blob: Blob } | null = null;
+  let isLast = false;
+
+  while (!isLast && offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, offset + 4);
+    isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7F;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    offset += 4;
+    if (type === 4) {
+      comments = parseVorbisComments(await readBytes(file, offset, offset + length));
+    } else if (type === 6) {
+      const parsed = parseFlacPicture(await readBytes(file, offset, offset + length));
+      if (parsed && (!picture || (parsed.type === 3 && picture.type !== 3))) picture = parsed;
+    }
+    offset += length;
+  }
+
+  applyVorbisComments(comments, meta, picture);
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+// Reassembles the first two packets of the first logical stream; the second is the comment header.
+const readOggHeaderPackets = async (file: Blob): Promise<Uint8Array[]> => {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let serial: number | null = null;
+  let offset = 0;
+
+  while (packets.length < 2 && offset + 27 <= file.size && offset < MAX_OGG_HEADER_BYTES) {
+    const header = await readBytes(file, offset, offset + 27);
+    if (ascii(header, 0, 4) !== 'OggS') break;
+    const segmentCount = header[26];
+    const table = await readBytes(file, offset + 27, offset + 27 + segmentCount);
+    const bodyStart = offset + 27 + segmentCount;
+    const bodyLength = table.reduce((total, segment) => total + segment, 0);
+    offset = bodyStart + bodyLength;
+
+    const pageSerial = uint32LE(header, 14);
+    serial ??= pageSerial;
+    if (pageSerial !== serial) continue;
+
+    const body = await readBytes(file, bodyStart, bodyStart + bodyLength);
+    let position = 0;
+    for (const segment of table) {
+      pending.push(body.subarray(position, position + segment));
+      position += segment;
+      if (segment < 255) {
+        packets.push(concatBytes(pending));
+        pending = [];
+        if (packets.length === 2) break;
+      }
+    }
+  }
+  return packets;
+};
+
+const readOgg = async (file: Blob, meta: ParsedTags) => {
+  const [, commentPacket] = await readOggHeaderPackets(file);
+  if (!commentPacket) return;
+
+  let comments: Uint8Array | null = null;
+  if (commentPacket[0] === 0x03 && ascii(commentPacket, 1, 7) === 'vorbis') {
+    comments = commentPacket.subarray(7);
+  } else if (ascii(commentPacket, 0, 8) === 'OpusTags') {
+    comments = commentPacket.subarray(8);
+  } else if ((commentPacket[0] & 0x7F) === 4) {
+    comments = commentPacket.subarray(4); // Ogg FLAC: a raw VORBIS_COMMENT metadata block.
+  }
+  if (comments) applyVorbisComments(parseVorbisComments(comments), meta);
+};
+
+// --- MP4 / M4A atoms ---
+
+const forEachAtom = (bytes: Uint8Array, start: number, end: number, callback: (type: string, dataStart: number, dataEnd: number) => void) => {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32BE(bytes, offset);
+    const type = ascii(bytes, offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      size = uint32BE(bytes, offset + 8) * 2 ** 32 + uint32BE(bytes, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    callback(type, offset + headerSize, offset + size);
+    offset += size;
+  }
+};
+
+const findAtom = (bytes: Uint8Array, start: number, end: number, type: string): [number, number] | null => {
+  let found: [number, number] | null = null;
+  forEachAtom(bytes, start, end, (atomType, dataStart, dataEnd) => {
+    if (!found && atomType === type) found = [dataStart, dataEnd];
+  });
+  return found;
+};
+
+// Walks top-level atoms by seeking, so a trailing `moov` never forces us to read `mdat`.
+// Also totals the `mdat` sizes, which is the audio data for bitrate purposes.
+const readMp4Moov = async (file: Blob): Promise<{ moov: Uint8Array | null; mediaBytes: number }> => {
+  let moov: Uint8Array | null = null;
+  let mediaBytes = 0;
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 16);
+    let size = uint32BE(header, 0);
+    const type = ascii(header, 4, 8);
+    let headerSize = 8;
+    if (size === 1) {
+      size = uint32BE(header, 8) * 2 ** 32 + uint32BE(header, 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) break;
+    if (type === 'moov') {
+      moov = await readBytes(file, offset + headerSize, offset + size);
+    } else if (type === 'mdat') {
+      mediaBytes += size - headerSize;
+    }
+    offset += size;
+  }
+  return { moov, mediaBytes };
+};
+
+const readMp4 = async (file: Blob, meta: ParsedTags) => {
+  const { moov } = await readMp4Moov(file);
+  if (!moov) return;
+
+  const udta = findAtom(moov, 0, moov.length, 'udta');
+  const metaAtom = udta && findAtom(moov, udta[0], udta[1], 'meta');
+  if (!metaAtom) return;
+  // ISO `meta` is a full box with 4 bytes of version/flags; QuickTime's is not.
+  const metaStart = ascii(moov, metaAtom[0] + 4, metaAtom[0] + 8) === 'hdlr' ? metaAtom[0] : metaAtom[0] + 4;
+  const ilst = findAtom(moov, metaStart, metaAtom[1], 'ilst');
+  if (!ilst) return;
+
+  const values: Record<string, { type: number; data: Uint8Array }> = {};
+  // iTunes-style freeform `----` items, keyed by their upper-cased `name`.
+  const freeform: Record<string, string> = {};
+  forEachAtom(moov, ilst[0], ilst[1], (key, itemStart, itemEnd) => {
+    const data = findAtom(moov!, itemStart, itemEnd, 'data');
+    if (key === '----') {
+      const name = findAtom(moov!, itemStart, itemEnd, 'name');
+      if (name && data) {
+        freeform[utf8(moov!.subarray(name[0] + 4, name[1])).toUpperCase()] ??= utf8(moov!.subarray(data[0] + 8, data[1]));
+      }
+      return;
+    }
+    if (data && !values[key]) {
+      values[key] = { type: uint32BE(moov!, data[0]) & 0xFFFFFF, data: moov!.subarray(data[0] + 8, data[1]) };
+    }
+  });
+
+  const text = (key: string) => values[key] && utf8(values[key].data);
+  const pair = (key: string) => {
+    const value = values[key]?.data;
+    return value && value.length >= 4 ? ((value[2] << 8) | value[3]) || undefined : undefined;
+  };
+  const genreIndex = values.gnre?.data;
+  const cover = values.covr;
+
+  assignMissing(meta, {
+    title: text('©nam'),
+    artist: text('©ART'),
+    album: text('©alb'),
+    albumArtist: text('aART'),
+    trackNumber: pair('trkn'),
+    discNumber: pair('disk'),
+    year: parseYear(text('©day')),
+    genre: parseGenre(text('©gen')) ?? (genreIndex ? ID3V1_GENRES[((genreIndex[0] << 8) | genreIndex[1]) - 1] : undefined),
+    coverArt: cover ? toImageBlob(cover.data, cover.type === 14 ? 'image/png' : cover.type === 13 ? 'image/jpeg' : undefined) : undefined,
+    lyrics: text('©lyr'),
+    ...replayGainFrom(key => freeform[key]),
+  });
+};
+
+// --- Stream info ---
+
+// How far past any ID3 tag we look for the first MPEG audio frame.
+const MP3_SYNC_SEARCH_BYTES = 64 * 1024;
+// How much of the end of an Ogg file we search for the last page.
+const OGG_TAIL_BYTES = 64 * 1024;
+const DURATION_PROBE_TIMEOUT_MS = 10_000;
+
+// kbps by bitrate index, per layer (I, II, III). MPEG-2 and 2.5 share a table.
+const MPEG1_BITRATES = [
+  [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+];
+const MPEG2_BITRATES = [
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+// Sample rates by version bits: 0 is MPEG-2.5, 2 is MPEG-2, 3 is MPEG-1.
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+const MP4_CODECS: Record<string, string> = {
+  'mp4a': 'AAC', 'alac': 'ALAC', 'fLaC': 'FLAC', 'Opus': 'Opus', 'ac-3': 'AC-3', 'ec-3': 'E-AC-3',
+};
+
+// Duration and technical details of the audio stream itself.
+export type AudioInfo = Partial<Pick<Track, 'duration' | 'codec' | 'bitrate' | 'sampleRate' | 'channels' | 'bitDepth'>>;
+
+// Average bitrate in kbps of `bytes` of audio playing for `duration` seconds.
+const averageBitrate = (bytes: number, duration?: number): number | undefined => {
+  return duration ? Math.round(bytes * 8 / duration / 1000) : undefined;
+};
+
+interface MpegFrame {
+  isMpeg1: boolean;
+  layer: number;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  length: number;
+  samples: number;
+}
+
+const parseMpegFrameHeader = (bytes: Uint8Array, offset: number): MpegFrame | null => {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xFF || (bytes[offset + 1] & 0xE0) !== 0xE0) return null;
+  const versionBits = (bytes[offset + 1] >> 3) & 3;
+  const layerBits = (bytes[offset + 1] >> 1) & 3;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const rateIndex = (bytes[offset + 2] >> 2) & 3;
+  // Reserved values, and free-format streams we can't size.
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const isMpeg1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  const bitrate = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[layer - 1][bitrateIndex];
+  const sampleRate = MPEG_SAMPLE_RATES[versionBits][rateIndex];
+  const padding = (bytes[offset + 2] >> 1) & 1;
+  const samples = layer === 1 ? 384 : layer === 3 && !isMpeg1 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor(12 * bitrate * 1000 / sampleRate) + padding) * 4
+    : Math.floor(samples / 8 * bitrate * 1000 / sampleRate) + padding;
+  return { isMpeg1, layer, bitrate, sampleRate, channels: bytes[offset + 3] >> 6 === 3 ? 1 : 2, length, samples };
+};
+
+const readMpegInfo = async (file: Blob, start: number): Promise<AudioInfo> => {
+  const bytes = await readBytes(file, start, start + MP3_SYNC_SEARCH_BYTES);
+  for (let i = 0; i + 4 <= bytes.length; i++) {
+    const frame = parseMpegFrameHeader(bytes, i);
+    // A real frame is followed by another one; a stray sync pattern usually isn't.
+    if (!frame || (i + frame.length + 4 <= bytes.length && !parseMpegFrameHeader(bytes, i + frame.length))) continue;
+
+    const hasId3v1 = file.size >= 128 && ascii(await readBytes(file, file.size - 128, file.size - 125), 0, 3) === 'TAG';
+    const audioBytes = file.size - start - i - (hasId3v1 ? 128 : 0);
+    // VBR files start with a Xing/Info (LAME) or VBRI frame that counts the frames.
+    const xing = i + 4 + (frame.isMpeg1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17));
+    let frameCount: number | undefined;
+    if (['Xing', 'Info'].includes(ascii(bytes, xing, xing + 4)) && uint32BE(bytes, xing + 4) & 1) {
+      frameCount = uint32BE(bytes, xing + 8);
+    } else if (ascii(bytes, i + 36, i + 40) === 'VBRI') {
+      frameCount = uint32BE(bytes, i + 50);
+    }
+    const duration = frameCount ? frameCount * frame.samples / frame.sampleRate : audioBytes * 8 / (frame.bitrate * 1000);
+    return {
+      codec: `MP${frame.layer}`,
+      duration,
+      bitrate: frameCount ? averageBitrate(audioBytes, duration) : frame.bitrate,
+      sampleRate: frame.sampleRate,
+      channels: frame.channels,
+    };
+  }
+  return {};
+};
+
+const parseFlacStreamInfo = (data: Uint8Array): AudioInfo => {
+  const sampleRate = (data[10] << 12) | (data[11] << 4) | (data[12] >> 4);
+  const totalSamples = (data[13] & 0x0F) * 2 ** 32 + uint32BE(data, 14);
+  return {
+    codec: 'FLAC',
+    duration: sampleRate && totalSamples ? totalSamples / sampleRate : undefined,
+    sampleRate,
+    channels: ((data[12] >> 1) & 7) + 1,
+    bitDepth: (((data[12] & 1) << 4) | (data[13] >> 4)) + 1,
+  };
+};
+
+const readFlacInfo = async (file: Blob, start: number): Promise<AudioInfo> => {
+  let offset = start;
+  let info: AudioInfo = {};
+  let isLast = false;
+  while (!isLast && offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, offset + 4);
+    isLast = (header[0] & 0x80) !== 0;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    offset += 4;
+    if ((header[0] & 0x7F) === 0) info = parseFlacStreamInfo(await readBytes(file, offset, offset + length));
+    offset += length;
+  }
+  // Audio frames follow the last metadata block.
+  return { ...info, bitrate: averageBitrate(file.size - offset, info.duration) };
+};
+
+// The granule position of a stream's last page is its length in samples.
+const readOggLastGranule = async (file: Blob, serial: number): Promise<number | undefined> => {
+  const tail = await readBytes(file, Math.max(0, file.size - OGG_TAIL_BYTES), file.size);
+  for (let i = tail.length - 27; i >= 0; i--) {
+    if (tail[i] !== 0x4F || ascii(tail, i, i + 4) !== 'OggS' || uint32LE(tail, i + 14) !== serial) continue;
+    const high = uint32LE(tail, i + 10);
+    // -1 marks a page on which no packet ends.
+    if (high === 0xFFFFFFFF) continue;
+    return high * 2 ** 32 + uint32LE(tail, i + 6);
+  }
+  return undefined;
+};
+
+const readOggInfo = async (file: Blob): Promise<AudioInfo> => {
+  const [idPacket] = await readOggHeaderPackets(file);
+  if (!idPacket) return {};
+  let info: AudioInfo;
+  let preSkip = 0;
+  if (idPacket[0] === 0x01 && ascii(idPacket, 1, 7) === 'vorbis') {
+    const nominalBitrate = uint32LE(idPacket, 20) | 0;
+    info = {
+      codec: 'Vorbis',
+      channels: idPacket[11],
+      sampleRate: uint32LE(idPacket, 12),
+      bitrate: nominalBitrate > 0 ? Math.round(nominalBitrate / 1000) : undefined,
+    };
+  } else if (ascii(idPacket, 0, 8) === 'OpusHead') {
+    preSkip = idPacket[10] | (idPacket[11] << 8);
+    // Opus always decodes at 48 kHz; the header's rate is only that of the original input.
+    info = { codec: 'Opus', channels: idPacket[9], sampleRate: 48000 };
+  } else if (idPacket[0] === 0x7F && ascii(idPacket, 1, 5) === 'FLAC') {
+    // Mapping header (9 bytes), "fLaC", then the STREAMINFO block with its 4-byte header.
+    info = parseFlacStreamInfo(idPacket.subarray(17));
+  } else {
+    return {};
+  }
+
+  const serial = uint32LE(await readBytes(file, 0, 27), 14);
+  const granule = await readOggLastGranule(file, serial);
+  if (granule && info.sampleRate) info.duration = Math.max(0, granule - preSkip) / info.sampleRate;
+  return { ...info, bitrate: info.bitrate ?? averageBitrate(file.size, info.duration) };
+};
+
+const readMp4Info = async (file: Blob): Promise<AudioInfo> => {
+  const { moov, mediaBytes } = await readMp4Moov(file);
+  if (!moov) return {};
+
+  let info: AudioInfo | null = null;
+  forEachAtom(moov, 0, moov.length, (type, trakStart, trakEnd) => {
+    if (info || type !== 'trak') return;
+    const mdia = findAtom(moov, trakStart, trakEnd, 'mdia');
+    const hdlr = mdia && findAtom(moov, mdia[0], mdia[1], 'hdlr');
+    if (!mdia || !hdlr || ascii(moov, hdlr[0] + 8, hdlr[0] + 12) !== 'soun') return;
+
+    const mdhd = findAtom(moov, mdia[0], mdia[1], 'mdhd');
+    let timescale = 0;
+    let duration = 0;
+    if (mdhd) {
+      const isV1 = moov[mdhd[0]] === 1;
+      timescale = uint32BE(moov, mdhd[0] + (isV1 ? 20 : 12));
+      duration = isV1
+        ? uint32BE(moov, mdhd[0] + 24) * 2 ** 32 + uint32BE(moov, mdhd[0] + 28)
+        : uint32BE(moov, mdhd[0] + 16);
+    }
+
+    const minf = findAtom(moov, mdia[0], mdia[1], 'minf');
+    const stbl = minf && findAtom(moov, minf[0], minf[1], 'stbl');
+    const stsd = stbl && findAtom(moov, stbl[0], stbl[1], 'stsd');
+    let entry: { type: string; start: number } | null = null;
+    // stsd: version/flags and an entry count, then the sample entries.
+    if (stsd) forEachAtom(moov, stsd[0] + 8, stsd[1], (entryType, entryStart) => { entry ??= { type: entryType, start: entryStart }; });
+
+    const trackInfo: AudioInfo = {
+      duration: timescale && duration ? duration / timescale : undefined,
+      sampleRate: timescale || undefined,
+    };
+    if (entry) {
+      const { type: entryType, start } = entry as { type: string; start: number };
+      const isLossless = entryType === 'alac' || entryType === 'fLaC';
+      // The sample entry's own 16.16 rate overflows above 65535 Hz, where the timescale is the better guide.
+      const entryRate = uint32BE(moov, start + 24) >>> 16;
+      trackInfo.codec = MP4_CODECS[entryType] ?? entryType.trim().toUpperCase();
+      trackInfo.channels = (moov[start + 16] << 8) | moov[start + 17];
+      if (entryRate) trackInfo.sampleRate = entryRate;
+      if (isLossless) trackInfo.bitDepth = (moov[start + 18] << 8) | moov[start + 19];
+    }
+    info = trackInfo;
+  });
+  if (!info) return {};
+  const found: AudioInfo = info;
+  return { ...found, bitrate: averageBitrate(mediaBytes, found.duration) };
+};
+
+const readWavInfo = async (file: Blob): Promise<AudioInfo> => {
+  let info: AudioInfo = {};
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 8);
+    const id = ascii(header, 0, 4);
+    const size = uint32LE(header, 4);
+    if (id === 'fmt ') {
+      const fmt = await readBytes(file, offset + 8, offset + 8 + Math.min(size, 40));
+      const format = fmt[0] | (fmt[1] << 8);
+      byteRate = uint32LE(fmt, 8);
+      info = {
+        // 1 is integer PCM, 3 float PCM, 0xFFFE an extensible header around either.
+        codec: format === 3 ? 'PCM (float)' : format === 1 || format === 0xFFFE ? 'PCM' : 'WAV',
+        channels: fmt[2] | (fmt[3] << 8),
+        sampleRate: uint32LE(fmt, 4),
+        bitDepth: (fmt[14] | (fmt[15] << 8)) || undefined,
+        bitrate: Math.round(byteRate * 8 / 1000),
+      };
+    } else if (id === 'data') {
+      // Recorders that stream to disk can leave the size at 0 or -1; use the rest of the file then.
+      const dataSize = size && size !== 0xFFFFFFFF ? Math.min(size, file.size - offset - 8) : file.size - offset - 8;
+      if (byteRate) info.duration = dataSize / byteRate;
+      break;
+    }
+    offset += 8 + size + (size & 1);
+  }
+  return info;
+};
+
+// Lets the browser work out the length of formats we don't parse ourselves.
+const probeDuration = (file: Blob): Promise<number | undefined> => new Promise((resolve) => {
+  const audio = document.createElement('audio');
+  const url = URL.createObjectURL(file);
+  let isDone = false;
+  const finish = (duration?: number) => {
+    if (isDone) return;
+    isDone = true;
+    clearTimeout(timer);
+    audio.removeAttribute('src');
+    audio.load();
+    URL.revokeObjectURL(url);
+    resolve(duration !== undefined && isFinite(duration) && duration > 0 ? duration : undefined);
+  };
+  const timer = setTimeout(() => finish(), DURATION_PROBE_TIMEOUT_MS);
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => finish(audio.duration);
+  audio.onerror = () => finish();
+  audio.src = url;
+});
+
+// --- Entry points ---
+
+const readTags = async (file: Blob): Promise<ParsedTags> => {
+  const meta: ParsedTags = {};
+  try {
+    const head = await readBytes(file, 0, 12);
+    let offset = 0;
+    if (ascii(head, 0, 3) === 'ID3') {
+      offset = await readId3v2(file, meta);
+    }
+    const magic = offset > 0 ? await readBytes(file, offset, offset + 12) : head;
+    if (ascii(magic, 0, 4) === 'fLaC') {
+      await readFlac(file, offset + 4, meta);
+    } else if (ascii(magic, 0, 4) === 'OggS') {
+      await readOgg(file, meta);
+    } else if (ascii(magic, 4, 8) === 'ftyp') {
+      await readMp4(file, meta);
+    } else {
+      await readId3v1(file, meta);
+    }
+  } catch (error) {
+    console.warn('Failed to read embedded tags:', error);
+  }
+  return meta;
+};
+
+/**
+ * Reads embedded tags and artwork from an audio file. Unknown or malformed
+ * files resolve to whatever could be read, never reject.
+ */
+export const readTrackMetadata = async (file: Blob): Promise<TrackMetadata> => {
+  const { lyrics: _lyrics, ...meta } = await readTags(file);
+  return meta;
+};
+
+/** Lyrics stored in the file's own tags (USLT, LYRICS or ©lyr), if any. */
+export const readEmbeddedLyrics = async (file: Blob): Promise<string | null> => {
+  const { lyrics } = await readTags(file);
+  return lyrics?.trim() || null;
+};
+
+/**
+ * Probes the audio stream for its duration, codec, bitrate and sample rate. Formats we
+ * can't parse fall back to asking the browser for the duration. Never rejects; fields
+ * that couldn't be determined are left out.
+ */
+export const readAudioInfo = async (file: Blob): Promise<AudioInfo> => {
+  let info: AudioInfo = {};
+  try {
+    const head = await readBytes(file, 0, 12);
+    const offset = ascii(head, 0, 3) === 'ID3' ? id3v2Size(head) : 0;
+    const magic = offset > 0 ? await readBytes(file, offset, offset + 12) : head;
+    if (ascii(magic, 0, 4) === 'fLaC') {
+      info = await readFlacInfo(file, offset + 4);
+    } else if (ascii(magic, 0, 4) === 'OggS') {
+      info = await readOggInfo(file);
+    } else if (ascii(magic, 4, 8) === 'ftyp') {
+      info = await readMp4Info(file);
+    } else if (ascii(magic, 0, 4) === 'RIFF' && ascii(magic, 8, 12) === 'WAVE') {
+      info = await readWavInfo(file);
+    } else {
+      info = await readMpegInfo(file, offset);
+    }
+  } catch (error) {
+    console.warn('Failed to read audio stream info:', error);
+  }
+  if (!info.duration || !isFinite(info.duration)) {
+    info.duration = await probeDuration(file);
+  }
+  const isKnown = (value: unknown) => typeof value === 'number' ? isFinite(value) && value > 0 : !!value;
+  return Object.fromEntries(Object.entries(info).filter(([, value]) => isKnown(value))) as AudioInfo;
+};
@@ -0,0 +1,375 @@
+import { EQ_BANDS, EqualizerCurve, FLAT_CURVE } from './equalizer';
+
+// Two-deck playback engine. The current track plays on the active deck while the next queued
+// track is preloaded on the standby deck, so the switch between them happens here, without a
+// round trip through React state. Both decks feed a Web Audio graph, which is what lets us
+// run equal-power crossfades on per-deck gain nodes:
+//
+//   deck A normalization -> fade gain ─┐
+//                                      ├─> preamp -> 10 EQ bands -> limiter -> master volume -> output
+//   deck B normalization -> fade gain ─┘
+
+export interface EngineTrack {
+  id: number;
+  file: Blob;
+  // Loudness normalization for this track, in dB.
+  gainDb?: number;
+}
+
+export interface PlaybackEngineEvents {
+  onTimeUpdate: (time: number) => void;
+  onDurationChange: (duration: number, trackId: number) => void;
+  // The engine moved on to the preloaded track by itself.
+  onAdvance: (trackId: number) => void;
+  // The current track finished and nothing was preloaded to follow it.
+  onEnded: () => void;
+}
+
+export interface PlaybackEngine {
+  load: (track: EngineTrack) => void;
+  preload: (track: EngineTrack | null) => void;
+  // Updates the normalization gain of a loaded or preloaded track.
+  setTrackGain: (trackId: number, gainDb: number) => void;
+  play: () => Promise<void>;
+  pause: () => void;
+  stop: () => void;
+  seek: (time: number) => void;
+  getCurrentTime: () => number;
+  setVolume: (volume: number) => void;
+  setCrossfade: (seconds: number) => void;
+  setEqualizer: (curve: EqualizerCurve) => void;
+  setSinkId: (sinkId: string) => Promise<void>;
+  destroy: () => void;
+}
+
+interface Deck {
+  audio: HTMLAudioElement;
+  normalizer: GainNode | null;
+  gain: GainNode | null;
+  trackId: number | null;
+  gainDb: number;
+  url: string;
+}
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+// With crossfade off we still overlap the decks by this much, with a matching micro-fade,
+// to hide the time it takes the standby element to start producing sound.
+const GAPLESS_OVERLAP_SECONDS = 0.05;
+const MONITOR_INTERVAL_MS = 20;
+const FADE_CURVE_STEPS = 64;
+// Neighbouring octave bands overlap a little at this Q, which keeps the summed curve smooth.
+const EQ_BAND_Q = 1.4;
+// Short time constant for parameter changes, so moving a slider doesn't click.
+const PARAM_SMOOTHING_SECONDS = 0.02;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Equal-power curves keep perceived loudness constant through the fade: cos² + sin² = 1.
+const fadeCurve = (direction: 'in' | 'out'): Float32Array => {
+  const curve = new Float32Array(FADE_CURVE_STEPS);
+  for (let i = 0; i < FADE_CURVE_STEPS; i++) {
+    const x = (i / (FADE_CURVE_STEPS - 1)) * (Math.PI / 2);
+    curve[i] = direction === 'in' ? Math.sin(x) : Math.cos(x);
+  }
+  return curve;
+};
+
+export const createPlaybackEngine = (events: PlaybackEngineEvents): PlaybackEngine => {
+  const createDeck = (): Deck => {
+    const audio = new Audio();
+    audio.preload = 'auto';
+    return { audio, normalizer: null, gain: null, trackId: null, gainDb: 0, url: '' };
+  };
+
+  const decks: [Deck, Deck] = [createDeck(), createDeck()];
+  let activeIndex = 0;
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let preamp: GainNode | null = null;
+  let bands: BiquadFilterNode[] = [];
+  let limiter: DynamicsCompressorNode | null = null;
+  let equalizer: EqualizerCurve = FLAT_CURVE;
+  let volume = 1;
+  let crossfadeSeconds = 0;
+  let pendingSinkId: string | null = null;
+  let monitorTimer: number | null = null;
+  // The deck being faded out while the active one fades in, if a transition is running.
+  let fadingDeck: Deck | null = null;
+  let fadeTimer: number | null = null;
+  // A preload that arrived mid-fade, while the standby deck was still the outgoing one.
+  let deferredPreload: EngineTrack | null | undefined;
+
+  const active = () => decks[activeIndex];
+  const standby = () => decks[1 - activeIndex];
+
+  // The graph is built on first use, since browsers only allow audio after a user gesture.
+  const ensureGraph = () => {
+    if (context) return context;
+    context = new AudioContext();
+    master = context.createGain();
+    master.gain.value = volume;
+    master.connect(context.destination);
+
+    preamp = context.createGain();
+    bands = EQ_BANDS.map((frequency, index) => {
+      const band = context!.createBiquadFilter();
+      // Shelves at the edges so the lowest and highest sliders reach all the way out.
+      band.type = index === 0 ? 'lowshelf' : index === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+      band.frequency.value = frequency;
+      band.Q.value = EQ_BAND_Q;
+      return band;
+    });
+    // Hard-knee, high-ratio compression just below full scale works as a brickwall limiter.
+    limiter = context.createDynamicsCompressor();
+    limiter.threshold.value = -1;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.25;
+
+    const lastBand = bands.reduce<AudioNode>((previous, band) => previous.connect(band), preamp);
+    lastBand.connect(limiter);
+    limiter.connect(master);
+    applyEqualizer();
+
+    for (const deck of decks) {
+      const source = context.createMediaElementSource(deck.audio);
+      deck.normalizer = context.createGain();
+      deck.normalizer.gain.value = dbToGain(deck.gainDb);
+      deck.gain = context.createGain();
+      source.connect(deck.normalizer).connect(deck.gain).connect(preamp);
+    }
+    decks[activeIndex].gain!.gain.value = 1;
+    decks[1 - activeIndex].gain!.gain.value = 0;
+    if (pendingSinkId !== null) {
+      (context as any).setSinkId?.(pendingSinkId).catch((e: Error) => console.error("Failed to set audio output:", e));
+    }
+    return context;
+  };
+
+  const applyEqualizer = () => {
+    if (!context || !preamp || !limiter) return;
+    const now = context.currentTime;
+    preamp.gain.setTargetAtTime(dbToGain(equalizer.preamp), now, PARAM_SMOOTHING_SECONDS);
+    bands.forEach((band, index) => {
+      band.gain.setTargetAtTime(equalizer.gains[index] ?? 0, now, PARAM_SMOOTHING_SECONDS);
+    });
+    // With the limiter off, a ratio of 1 turns the compressor into a pass-through.
+    limiter.ratio.value = equalizer.limiter ? 20 : 1;
+  };
+
+  const applyTrackGain = (deck: Deck, gainDb: number) => {
+    deck.gainDb = gainDb;
+    if (deck.normalizer && context) {
+      deck.normalizer.gain.setTargetAtTime(dbToGain(gainDb), context.currentTime, PARAM_SMOOTHING_SECONDS);
+    }
+  };
+
+  const setDeckGain = (deck: Deck, value: number) => {
+    if (!deck.gain || !context) return;
+    deck.gain.gain.cancelScheduledValues(context.currentTime);
+    deck.gain.gain.value = value;
+  };
+
+  const clearDeck = (deck: Deck) => {
+    deck.audio.pause();
+    deck.audio.removeAttribute('src');
+    deck.audio.load();
+    if (deck.url) URL.revokeObjectURL(deck.url);
+    deck.url = '';
+    deck.trackId = null;
+  };
+
+  const loadIntoDeck = (deck: Deck, track: EngineTrack) => {
+    if (deck.url) URL.revokeObjectURL(deck.url);
+    deck.url = URL.createObjectURL(track.file);
+    deck.trackId = track.id;
+    deck.audio.src = deck.url;
+    deck.audio.load();
+    // Set straight away rather than smoothed: nothing is playing on this deck yet.
+    deck.gainDb = track.gainDb ?? 0;
+    if (deck.normalizer) deck.normalizer.gain.value = dbToGain(deck.gainDb);
+  };
+
+  // Ends a running transition straight away: the outgoing deck stops, the active one is at full level.
+  const finishFade = () => {
+    if (fadeTimer !== null) {
+      window.clearTimeout(fadeTimer);
+      fadeTimer = null;
+    }
+    if (fadingDeck) {
+      clearDeck(fadingDeck);
+      setDeckGain(fadingDeck, 0);
+      fadingDeck = null;
+    }
+    setDeckGain(active(), 1);
+    if (deferredPreload !== undefined) {
+      const track = deferredPreload;
+      deferredPreload = undefined;
+      preload(track);
+    }
+  };
+
+  const preload = (track: EngineTrack | null) => {
+    const deck = standby();
+    if (deck === fadingDeck) {
+      deferredPreload = track;
+      return;
+    }
+    if (!track) {
+      if (deck.trackId !== null) clearDeck(deck);
+      return;
+    }
+    if (deck.trackId === track.id && deck.url) {
+      applyTrackGain(deck, track.gainDb ?? 0);
+      return;
+    }
+    loadIntoDeck(deck, track);
+  };
+
+  const stopMonitor = () => {
+    if (monitorTimer !== null) {
+      window.clearInterval(monitorTimer);
+      monitorTimer = null;
+    }
+  };
+
+  const startTransition = () => {
+    const outgoing = active();
+    const incoming = standby();
+    if (incoming.trackId === null) return;
+
+    const remaining = outgoing.audio.duration - outgoing.audio.currentTime;
+    const fadeSeconds = Math.max(GAPLESS_OVERLAP_SECONDS, Math.min(crossfadeSeconds, remaining));
+
+    finishFade();
+    activeIndex = 1 - activeIndex;
+    fadingDeck = outgoing;
+
+    const ctx = ensureGraph();
+    const now = ctx.currentTime;
+    outgoing.gain!.gain.cancelScheduledValues(now);
+    incoming.gain!.gain.cancelScheduledValues(now);
+    outgoing.gain!.gain.setValueCurveAtTime(fadeCurve('out'), now, fadeSeconds);
+    incoming.gain!.gain.setValueCurveAtTime(fadeCurve('in'), now, fadeSeconds);
+    incoming.audio.currentTime = 0;
+    incoming.audio.play().catch(e => console.error("Playback failed", e));
+    fadeTimer = window.setTimeout(finishFade, fadeSeconds * 1000 + 50);
+
+    events.onAdvance(incoming.trackId);
+    if (isFinite(incoming.audio.duration)) {
+      events.onDurationChange(incoming.audio.duration, incoming.trackId);
+    }
+  };
+
+  // Media element `timeupdate` only fires every ~250ms, far too coarse to start the next
+  // deck on time, so while playing we poll how much of the current track is left.
+  const monitor = () => {
+    const deck = active();
+    if (fadingDeck || deck.audio.paused || standby().trackId === null) return;
+    const remaining = deck.audio.duration - deck.audio.currentTime;
+    if (isFinite(remaining) && remaining <= Math.max(crossfadeSeconds, GAPLESS_OVERLAP_SECONDS)) {
+      startTransition();
+    }
+  };
+
+  const startMonitor = () => {
+    if (monitorTimer === null) {
+      monitorTimer = window.setInterval(monitor, MONITOR_INTERVAL_MS);
+    }
+  };
+
+  for (const deck of decks) {
+    deck.audio.addEventListener('timeupdate', () => {
+      if (deck === active()) events.onTimeUpdate(deck.audio.currentTime);
+    });
+    deck.audio.addEventListener('loadedmetadata', () => {
+      if (deck === active() && deck.trackId !== null) events.onDurationChange(deck.audio.duration, deck.trackId);
+    });
+    deck.audio.addEventListener('ended', () => {
+      if (deck === fadingDeck) {
+        finishFade();
+        return;
+      }
+      if (deck !== active()) return;
+      // The monitor may miss a very short track; fall back to a hard switch.
+      if (standby().trackId !== null) {
+        startTransition();
+      } else {
+        stopMonitor();
+        events.onEnded();
+      }
+    });
+  }
+
+  return {
+    load: (track) => {
+      finishFade();
+      const next = standby();
+      if (next.trackId === track.id && next.url) {
+        // Already preloaded: just swap decks.
+        clearDeck(active());
+        setDeckGain(active(), 0);
+        activeIndex = 1 - activeIndex;
+        applyTrackGain(active(), track.gainDb ?? 0);
+      } else {
+        clearDeck(next);
+        loadIntoDeck(active(), track);
+      }
+      setDeckGain(active(), 1);
+      active().audio.currentTime = 0;
+    },
+    preload,
+    setTrackGain: (trackId, gainDb) => {
+      for (const deck of decks) {
+        if (deck.trackId === trackId) applyTrackGain(deck, gainDb);
+      }
+    },
+    play: async () => {
+      const ctx = ensureGraph();
+      if (ctx.state === 'suspended') await ctx.resume();
+      if (!active().url) return;
+      startMonitor();
+      await active().audio.play();
+    },
+    pause: () => {
+      // A half-finished crossfade can't sensibly resume later, so complete it first.
+      finishFade();
+      stopMonitor();
+      active().audio.pause();
+    },
+    stop: () => {
+      finishFade();
+      stopMonitor();
+      decks.forEach(clearDeck);
+    },
+    seek: (time) => {
+      finishFade();
+      active().audio.currentTime = time;
+    },
+    getCurrentTime: () => active().audio.currentTime,
+    setVolume: (value) => {
+      volume = value;
+      if (master) master.gain.value = value;
+    },
+    setCrossfade: (seconds) => {
+      crossfadeSeconds = Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+    },
+    setEqualizer: (curve) => {
+      equalizer = curve;
+      applyEqualizer();
+    },
+    setSinkId: async (sinkId) => {
+      pendingSinkId = sinkId;
+      if (context) await (context as any).setSinkId(sinkId);
+    },
+    destroy: () => {
+      finishFade();
+      stopMonitor();
+      decks.forEach(clearDeck);
+      context?.close();
+      context = null;
+    },
+  };
+};
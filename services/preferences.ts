@@ -0,0 +1,23 @@
+// Small UI preferences that should survive a reload. Library data lives in IndexedDB (see db.ts).
+const PREFIX = 'offlineMusicPlayer:';
+
+export const loadPreference = <T,>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(PREFIX + key);
+    if (stored === null) return fallback;
+    const parsed = JSON.parse(stored);
+    // Merge objects over the fallback so preferences saved by older versions pick up new fields.
+    return typeof fallback === 'object' && fallback !== null && !Array.isArray(fallback) ? { ...fallback, ...parsed } : parsed;
+  } catch (error) {
+    console.warn(`Ignoring unreadable preference "${key}":`, error);
+    return fallback;
+  }
+};
+
+export const savePreference = <T,>(key: string, value: T) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save preference "${key}":`, error);
+  }
+};
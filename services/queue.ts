@@ -0,0 +1,172 @@
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlayQueue {
+  // Track ids of the list playback was started from (All songs or a playlist), in list order.
+  source: number[];
+  // What plays after the current track. The first `priorityCount` entries were added by the
+  // user through "Play next" / "Add to queue" and always play before the rest of the list.
+  upNext: number[];
+  priorityCount: number;
+  // Previously played ids, most recent last.
+  history: number[];
+  isShuffled: boolean;
+  repeat: RepeatMode;
+}
+
+const MAX_HISTORY = 200;
+
+export const createQueue = (): PlayQueue => ({
+  source: [],
+  upNext: [],
+  priorityCount: 0,
+  history: [],
+  isShuffled: false,
+  repeat: 'off',
+});
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const pushHistory = (history: number[], id: number | null): number[] => {
+  if (id === null) return history;
+  return [...history, id].slice(-MAX_HISTORY);
+};
+
+// The part of `source` that follows `currentId`, shuffled when shuffle is on.
+const remainingFromSource = (source: number[], currentId: number | null, isShuffled: boolean): number[] => {
+  if (isShuffled) {
+    return shuffle(source.filter(id => id !== currentId));
+  }
+  const index = currentId === null ? -1 : source.indexOf(currentId);
+  return source.slice(index + 1);
+};
+
+const priorityItems = (queue: PlayQueue) => queue.upNext.slice(0, queue.priorityCount);
+
+/** Starts playing `startId` from `source`, keeping anything the user queued by hand. */
+export const startQueue = (queue: PlayQueue, source: number[], startId: number, previousId: number | null): PlayQueue => ({
+  ...queue,
+  source,
+  upNext: [...priorityItems(queue), ...remainingFromSource(source, startId, queue.isShuffled)],
+  history: previousId === startId ? queue.history : pushHistory(queue.history, previousId),
+});
+
+/**
+ * Moves on from `currentId`. Returns the id to play, or null when the list is exhausted and
+ * repeat is off. With repeat-all, the source is refilled (and reshuffled) once it runs out.
+ */
+export const advanceQueue = (queue: PlayQueue, currentId: number | null): { queue: PlayQueue; nextId: number | null } => {
+  let upNext = queue.upNext;
+  if (upNext.length === 0 && queue.repeat === 'all' && queue.source.length > 0) {
+    upNext = queue.isShuffled ? shuffle(queue.source) : [...queue.source];
+    // Don't play the same track twice in a row across a reshuffle.
+    if (queue.isShuffled && upNext.length > 1 && upNext[0] === currentId) {
+      upNext.push(upNext.shift()!);
+    }
+  }
+  if (upNext.length === 0) {
+    return { queue, nextId: null };
+  }
+
+  const [nextId, ...rest] = upNext;
+  return {
+    queue: {
+      ...queue,
+      upNext: rest,
+      priorityCount: Math.max(0, queue.priorityCount - 1),
+      history: pushHistory(queue.history, currentId),
+    },
+    nextId,
+  };
+};
+
+/**
+ * The track `advanceQueue` will move to when the current one finishes, so it can be preloaded.
+ * Null when nothing follows, or when that is only decided at random by a repeat-all reshuffle.
+ */
+export const peekNext = (queue: PlayQueue, currentId: number | null): number | null => {
+  if (queue.repeat === 'one') return currentId;
+  if (queue.upNext.length > 0) return queue.upNext[0];
+  if (queue.repeat === 'all' && !queue.isShuffled) return queue.source[0] ?? null;
+  return null;
+};
+
+/**
+ * Steps back through history. The current track goes back into up next, at the head of the
+ * source part: it wasn't queued by hand, so a new list started later shouldn't keep it.
+ */
+export const rewindQueue = (queue: PlayQueue, currentId: number | null): { queue: PlayQueue; prevId: number | null } => {
+  if (queue.history.length === 0) {
+    return { queue, prevId: null };
+  }
+  const prevId = queue.history[queue.history.length - 1];
+  return {
+    queue: {
+      ...queue,
+      history: queue.history.slice(0, -1),
+      upNext: currentId === null ? queue.upNext : [...priorityItems(queue), currentId, ...queue.upNext.slice(queue.priorityCount)],
+    },
+    prevId,
+  };
+};
+
+export const setShuffle = (queue: PlayQueue, isShuffled: boolean, currentId: number | null): PlayQueue => {
+  if (queue.isShuffled === isShuffled) return queue;
+  return {
+    ...queue,
+    isShuffled,
+    // Hand-queued tracks keep their order; only the rest of the list is reshuffled or restored.
+    upNext: [...priorityItems(queue), ...remainingFromSource(queue.source, currentId, isShuffled)],
+  };
+};
+
+export const setRepeat = (queue: PlayQueue, repeat: RepeatMode): PlayQueue => ({ ...queue, repeat });
+
+/** "Play next": these tracks go ahead of everything else in up next. */
+export const playNext = (queue: PlayQueue, ids: number[]): PlayQueue => ({
+  ...queue,
+  upNext: [...ids, ...queue.upNext],
+  priorityCount: queue.priorityCount + ids.length,
+});
+
+/** "Add to queue": these tracks play after other hand-queued tracks, before the rest of the list. */
+export const addToQueue = (queue: PlayQueue, ids: number[]): PlayQueue => ({
+  ...queue,
+  upNext: [...priorityItems(queue), ...ids, ...queue.upNext.slice(queue.priorityCount)],
+  priorityCount: queue.priorityCount + ids.length,
+});
+
+export const removeFromUpNext = (queue: PlayQueue, index: number): PlayQueue => ({
+  ...queue,
+  upNext: queue.upNext.filter((_, i) => i !== index),
+  priorityCount: index < queue.priorityCount ? queue.priorityCount - 1 : queue.priorityCount,
+});
+
+/**
+ * Moves an entry within its own part of up next. Crossing into the other part is refused: a
+ * hand-queued track would be lost the next time the list part is rebuilt, and a list track
+ * would be kept as if queued by hand.
+ */
+export const moveInUpNext = (queue: PlayQueue, from: number, to: number): PlayQueue => {
+  if (to < 0 || to >= queue.upNext.length) return queue;
+  if ((from < queue.priorityCount) !== (to < queue.priorityCount)) return queue;
+  const upNext = [...queue.upNext];
+  const [moved] = upNext.splice(from, 1);
+  upNext.splice(to, 0, moved);
+  return { ...queue, upNext };
+};
+
+/** Forgets a track everywhere in the queue, e.g. after it was deleted from the library. */
+export const removeTrackFromQueue = (queue: PlayQueue, id: number): PlayQueue => ({
+  ...queue,
+  source: queue.source.filter(trackId => trackId !== id),
+  upNext: queue.upNext.filter(trackId => trackId !== id),
+  priorityCount: priorityItems(queue).filter(trackId => trackId !== id).length,
+  history: queue.history.filter(trackId => trackId !== id),
+});
@@ -0,0 +1,2 @@
+/** Lets the UI thread run between slices of a long computation. */
+export const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
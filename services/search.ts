@@ -0,0 +1,98 @@
+import { Track } from '../types';
+
+export type SortKey = 'title' | 'artist' | 'album' | 'dateAdded' | 'duration' | 'playCount' | 'lastPlayed' | 'rating';
+
+export interface LibrarySort {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export type TrackFilter = 'hasCover' | 'hasVideo' | 'hasLyrics';
+
+export const DEFAULT_LIBRARY_SORT: LibrarySort = { key: 'dateAdded', direction: 'asc' };
+
+/** Lowercases and strips diacritics so "Beyoncé" matches "beyonce". */
+export const normalizeText = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+const tokenize = (text: string): string[] => normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Levenshtein distance, giving up as soon as it must exceed `max`.
+const editDistanceWithin = (a: string, b: string, max: number): boolean => {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+};
+
+// Short words must match exactly; longer ones forgive one typo, or two from eight letters up.
+const allowedTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+const wordMatches = (queryWord: string, word: string): boolean => {
+  if (word.includes(queryWord)) return true;
+  const typos = allowedTypos(queryWord);
+  if (typos === 0) return false;
+  // Compare against the word's prefix too, so a half-typed word can still match.
+  return editDistanceWithin(queryWord, word, typos) || editDistanceWithin(queryWord, word.slice(0, queryWord.length), typos);
+};
+
+export const getSearchWords = (track: Track): string[] => {
+  return tokenize([track.name, track.artist, track.album, track.albumArtist].filter(Boolean).join(' '));
+};
+
+/** Every word of the query has to match some word of the track's title, artist or album. */
+export const matchesSearch = (searchWords: string[], query: string): boolean => {
+  const queryWords = tokenize(query);
+  return queryWords.every(queryWord => searchWords.some(word => wordMatches(queryWord, word)));
+};
+
+/** Lyrics saved with the song or fetched and cached for it; either shows in Now Playing. */
+export const hasLyrics = (track: Track): boolean => !!(track.lyrics || track.lyricsCache);
+
+export const matchesFilters = (track: Track, filters: TrackFilter[]): boolean => {
+  return filters.every(filter => {
+    if (filter === 'hasCover') return !!track.coverArt;
+    if (filter === 'hasVideo') return !!track.video;
+    return hasLyrics(track);
+  });
+};
+
+const sortValue = (track: Track, key: SortKey): string | number | undefined => {
+  switch (key) {
+    case 'title': return track.name;
+    case 'artist': return track.artist;
+    case 'album': return track.album;
+    case 'dateAdded': return track.dateAdded;
+    case 'duration': return track.duration;
+    case 'playCount': return track.playCount ?? 0;
+    case 'lastPlayed': return track.lastPlayed;
+    case 'rating': return track.rating;
+  }
+};
+
+export const sortTracks = (tracks: Track[], sort: LibrarySort): Track[] => {
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...tracks].sort((a, b) => {
+    const aValue = sortValue(a, sort.key);
+    const bValue = sortValue(b, sort.key);
+    // Tracks missing the value always sink to the bottom, whichever way we sort.
+    if (aValue === undefined || bValue === undefined) {
+      return aValue === bValue ? 0 : aValue === undefined ? 1 : -1;
+    }
+    if (typeof aValue === 'string' && typeof bValue === 'string') {
+      return direction * aValue.localeCompare(bValue, undefined, { sensitivity: 'base', numeric: true });
+    }
+    return direction * ((aValue as number) - (bValue as number));
+  });
+};
@@ -0,0 +1,83 @@
+export type ShortcutAction =
+  | 'playPause' | 'seekBackward' | 'seekForward' | 'volumeUp' | 'volumeDown'
+  | 'next' | 'previous' | 'mute' | 'lyrics' | 'search' | 'close' | 'help';
+
+// Which key triggers each action, as a `KeyboardEvent.key` value (letters lower-cased).
+export type KeyBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'playPause', label: 'Play / pause' },
+  { action: 'seekBackward', label: 'Seek back 5 seconds' },
+  { action: 'seekForward', label: 'Seek forward 5 seconds' },
+  { action: 'volumeUp', label: 'Volume up' },
+  { action: 'volumeDown', label: 'Volume down' },
+  { action: 'next', label: 'Next song' },
+  { action: 'previous', label: 'Previous song' },
+  { action: 'mute', label: 'Mute / unmute' },
+  { action: 'lyrics', label: 'Show or hide lyrics' },
+  { action: 'search', label: 'Search the library' },
+  { action: 'close', label: 'Close the open window' },
+  { action: 'help', label: 'Show keyboard shortcuts' },
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  playPause: ' ',
+  seekBackward: 'ArrowLeft',
+  seekForward: 'ArrowRight',
+  volumeUp: 'ArrowUp',
+  volumeDown: 'ArrowDown',
+  next: 'n',
+  previous: 'p',
+  mute: 'm',
+  lyrics: 'l',
+  search: '/',
+  close: 'Escape',
+  help: '?',
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+// Keys that only ever modify another key can't be bound on their own.
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'Dead', 'Unidentified'];
+
+export const formatKey = (key: string): string => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+/** The binding string for a key press, or null for presses that shortcuts should ignore. */
+export const keyFromEvent = (event: KeyboardEvent): string | null => {
+  // Leave browser and OS shortcuts such as Ctrl+F alone. Shift is fine: it's how "?" is typed.
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  return event.key.length === 1 ? event.key.toLowerCase() : event.key;
+};
+
+/** True while the user is typing somewhere, when single-key shortcuts must stay quiet. */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  // Checkboxes and buttons don't take keys, so shortcuts keep working after clicking them.
+  // Sliders do: their arrow keys would otherwise seek or change volume twice.
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'file'].includes(target.type);
+};
+
+export const findShortcutAction = (bindings: KeyBindings, key: string): ShortcutAction | null => {
+  const match = SHORTCUT_ACTIONS.find(({ action }) => bindings[action] === key);
+  return match ? match.action : null;
+};
+
+/** Binds `key` to `action`. An action that already used the key takes over the old key instead. */
+export const rebindKey = (bindings: KeyBindings, action: ShortcutAction, key: string): KeyBindings => {
+  const previousOwner = findShortcutAction(bindings, key);
+  const next = { ...bindings, [action]: key };
+  if (previousOwner && previousOwner !== action) {
+    next[previousOwner] = bindings[action];
+  }
+  return next;
+};
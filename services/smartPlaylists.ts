@@ -0,0 +1,168 @@
+import { SmartPlaylistDefinition, SmartRule, SmartRuleField, SmartRuleOperator, Track } from '../types';
+import { hasLyrics, normalizeText, sortTracks } from './search';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How a field's values are compared, and so which operators and inputs it gets.
+export type SmartFieldKind = 'text' | 'number' | 'duration' | 'date' | 'flag';
+
+export interface SmartFieldInfo {
+  field: SmartRuleField;
+  label: string;
+  kind: SmartFieldKind;
+  operators: SmartRuleOperator[];
+}
+
+const TEXT_OPERATORS: SmartRuleOperator[] = ['contains', 'notContains', 'is', 'isNot'];
+const COUNT_OPERATORS: SmartRuleOperator[] = ['greaterThan', 'lessThan', 'atLeast', 'atMost', 'is', 'isNot'];
+const FLAG_OPERATORS: SmartRuleOperator[] = ['isTrue', 'isFalse'];
+
+export const SMART_FIELDS: SmartFieldInfo[] = [
+  { field: 'title', label: 'Title', kind: 'text', operators: TEXT_OPERATORS },
+  { field: 'artist', label: 'Artist', kind: 'text', operators: TEXT_OPERATORS },
+  { field: 'album', label: 'Album', kind: 'text', operators: TEXT_OPERATORS },
+  { field: 'genre', label: 'Genre', kind: 'text', operators: TEXT_OPERATORS },
+  { field: 'year', label: 'Year', kind: 'number', operators: COUNT_OPERATORS },
+  { field: 'rating', label: 'Rating', kind: 'number', operators: ['atLeast', 'atMost', 'is', 'isNot'] },
+  { field: 'playCount', label: 'Plays', kind: 'number', operators: COUNT_OPERATORS },
+  { field: 'skipCount', label: 'Skips', kind: 'number', operators: COUNT_OPERATORS },
+  { field: 'duration', label: 'Duration', kind: 'duration', operators: ['lessThan', 'greaterThan'] },
+  { field: 'dateAdded', label: 'Date added', kind: 'date', operators: ['inLast', 'notInLast'] },
+  { field: 'lastPlayed', label: 'Last played', kind: 'date', operators: ['inLast', 'notInLast', 'never'] },
+  { field: 'hasVideo', label: 'Has video', kind: 'flag', operators: FLAG_OPERATORS },
+  { field: 'hasCover', label: 'Has cover art', kind: 'flag', operators: FLAG_OPERATORS },
+  { field: 'hasLyrics', label: 'Has lyrics', kind: 'flag', operators: FLAG_OPERATORS },
+];
+
+export const OPERATOR_LABELS: Record<SmartRuleOperator, string> = {
+  contains: 'contains',
+  notContains: 'does not contain',
+  is: 'is',
+  isNot: 'is not',
+  greaterThan: 'is more than',
+  lessThan: 'is less than',
+  atLeast: 'is at least',
+  atMost: 'is at most',
+  inLast: 'is in the last',
+  notInLast: 'is not in the last',
+  never: 'never',
+  isTrue: 'yes',
+  isFalse: 'no',
+};
+
+export const getSmartField = (field: SmartRuleField): SmartFieldInfo => {
+  return SMART_FIELDS.find(info => info.field === field) ?? SMART_FIELDS[0];
+};
+
+/** Whether the operator compares against the rule's value, rather than standing on its own. */
+export const operatorTakesValue = (operator: SmartRuleOperator): boolean => {
+  return operator !== 'never' && operator !== 'isTrue' && operator !== 'isFalse';
+};
+
+const DEFAULT_VALUES: Record<SmartFieldKind, string | number> = {
+  text: '',
+  number: 1,
+  duration: 3 * 60,
+  date: 30,
+  flag: '',
+};
+
+export const createSmartRule = (field: SmartRuleField): SmartRule => {
+  const info = getSmartField(field);
+  return { field, operator: info.operators[0], value: field === 'rating' ? 4 : DEFAULT_VALUES[info.kind] };
+};
+
+export const createSmartPlaylistDefinition = (): SmartPlaylistDefinition => ({
+  match: 'all',
+  rules: [createSmartRule('artist')],
+  sort: { key: 'dateAdded', direction: 'desc' },
+});
+
+/** A rule still missing its value, e.g. a blank "artist contains", which is left out of matching. */
+export const isRuleComplete = (rule: SmartRule): boolean => {
+  if (!operatorTakesValue(rule.operator)) return true;
+  const kind = getSmartField(rule.field).kind;
+  if (kind === 'text') return String(rule.value).trim() !== '';
+  return typeof rule.value === 'number' && isFinite(rule.value);
+};
+
+const textValue = (track: Track, field: SmartRuleField): string => {
+  switch (field) {
+    case 'title': return track.name;
+    case 'artist': return track.artist ?? '';
+    case 'album': return track.album ?? '';
+    default: return track.genre ?? '';
+  }
+};
+
+// Missing counts and ratings mean none yet; a missing year or duration is unknown and never matches.
+const numberValue = (track: Track, field: SmartRuleField): number | undefined => {
+  switch (field) {
+    case 'year': return track.year;
+    case 'rating': return track.rating ?? 0;
+    case 'playCount': return track.playCount ?? 0;
+    case 'skipCount': return track.skipCount ?? 0;
+    case 'duration': return track.duration;
+    case 'dateAdded': return track.dateAdded;
+    default: return track.lastPlayed;
+  }
+};
+
+const flagValue = (track: Track, field: SmartRuleField): boolean => {
+  if (field === 'hasVideo') return !!track.video;
+  if (field === 'hasCover') return !!track.coverArt;
+  return hasLyrics(track);
+};
+
+export const matchesRule = (track: Track, rule: SmartRule, now = Date.now()): boolean => {
+  const kind = getSmartField(rule.field).kind;
+  if (kind === 'flag') return flagValue(track, rule.field) === (rule.operator === 'isTrue');
+
+  if (kind === 'text') {
+    const value = normalizeText(textValue(track, rule.field));
+    const query = normalizeText(String(rule.value).trim());
+    switch (rule.operator) {
+      case 'contains': return value.includes(query);
+      case 'notContains': return !value.includes(query);
+      case 'is': return value === query;
+      default: return value !== query;
+    }
+  }
+
+  const value = numberValue(track, rule.field);
+  const target = Number(rule.value);
+  if (kind === 'date') {
+    const since = now - target * DAY_MS;
+    switch (rule.operator) {
+      case 'inLast': return value !== undefined && value >= since;
+      // Never played counts as not played recently.
+      case 'notInLast': return value === undefined || value < since;
+      default: return value === undefined;
+    }
+  }
+
+  if (value === undefined) return false;
+  switch (rule.operator) {
+    case 'greaterThan': return value > target;
+    case 'lessThan': return value < target;
+    case 'atLeast': return value >= target;
+    case 'atMost': return value <= target;
+    case 'is': return value === target;
+    default: return value !== target;
+  }
+};
+
+/**
+ * The tracks a smart playlist holds right now: those matching its rules, in its sort
+ * order, cut to its limit. A playlist without any complete rules holds every track.
+ */
+export const evaluateSmartPlaylist = (tracks: Track[], definition: SmartPlaylistDefinition, now = Date.now()): Track[] => {
+  const rules = definition.rules.filter(isRuleComplete);
+  const matching = rules.length === 0
+    ? tracks
+    : tracks.filter(track => definition.match === 'all'
+      ? rules.every(rule => matchesRule(track, rule, now))
+      : rules.some(rule => matchesRule(track, rule, now)));
+  const sorted = sortTracks(matching, definition.sort);
+  return definition.limit ? sorted.slice(0, definition.limit) : sorted;
+};
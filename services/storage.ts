@@ -0,0 +1,82 @@
+import { Track } from '../types';
+
+// Usage figures are estimates, and IndexedDB adds its own overhead on top of the raw
+// blobs, so imports are held to this share of what looks free.
+const IMPORT_HEADROOM = 0.9;
+
+export interface StorageEstimate {
+  // Bytes used by this site and the most it may use, as the browser reports them.
+  usage: number;
+  quota: number;
+}
+
+export interface TrackStorage {
+  track: Track;
+  audio: number;
+  cover: number;
+  video: number;
+  total: number;
+}
+
+export interface ImportSpaceCheck {
+  fits: boolean;
+  // Bytes free before the import.
+  available: number;
+}
+
+const storageManager = (): StorageManager | undefined => (typeof navigator !== 'undefined' ? navigator.storage : undefined);
+
+/** Null where the browser can't tell, e.g. outside a secure context. */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  try {
+    const estimate = await storageManager()?.estimate();
+    if (!estimate || estimate.quota === undefined) return null;
+    return { usage: estimate.usage ?? 0, quota: estimate.quota };
+  } catch (error) {
+    console.warn("Couldn't estimate storage:", error);
+    return null;
+  }
+};
+
+export const isStoragePersisted = async (): Promise<boolean> => {
+  try {
+    return (await storageManager()?.persisted()) ?? false;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Asks the browser not to evict the library under storage pressure. Some browsers
+ * decide silently and others prompt, so this is best called after a user action.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  const manager = storageManager();
+  if (!manager?.persist) return false;
+  try {
+    return (await manager.persisted()) || (await manager.persist());
+  } catch (error) {
+    console.warn("Couldn't request persistent storage:", error);
+    return false;
+  }
+};
+
+/** Whether `bytes` more would fit. Resolves to null when the browser can't estimate. */
+export const checkImportSpace = async (bytes: number): Promise<ImportSpaceCheck | null> => {
+  const estimate = await getStorageEstimate();
+  if (!estimate) return null;
+  const available = Math.max(0, estimate.quota - estimate.usage);
+  return { fits: bytes <= available * IMPORT_HEADROOM, available };
+};
+
+/** What each track takes up, biggest first. */
+export const getTrackStorage = (tracks: Track[]): TrackStorage[] => {
+  return tracks
+    .map(track => {
+      const audio = track.file.size;
+      const cover = (track.coverArt?.size ?? 0) + (track.coverThumbnail?.size ?? 0);
+      const video = track.video?.size ?? 0;
+      return { track, audio, cover, video, total: audio + cover + video };
+    })
+    .sort((a, b) => b.total - a.total);
+};
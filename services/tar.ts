@@ -0,0 +1,104 @@
+// Minimal ustar reading and writing, just enough for library backups. Entries are plain
+// files with short ASCII names; data is handled as Blobs so nothing is copied into memory.
+
+const BLOCK_SIZE = 512;
+// Octal size fields top out just below 8 GiB; larger entries use GNU base-256 sizes.
+const MAX_OCTAL_SIZE = 8 ** 11;
+
+export interface TarEntry {
+  name: string;
+  // Byte range of the entry's data within the archive.
+  start: number;
+  size: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const writeString = (header: Uint8Array, offset: number, length: number, value: string) => {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+};
+
+const writeOctal = (header: Uint8Array, offset: number, length: number, value: number) => {
+  writeString(header, offset, length, value.toString(8).padStart(length - 1, '0') + '\0');
+};
+
+const writeSize = (header: Uint8Array, size: number) => {
+  if (size < MAX_OCTAL_SIZE) {
+    writeOctal(header, 124, 12, size);
+    return;
+  }
+  header[124] = 0x80;
+  for (let i = 135, remaining = size; i > 124; i--, remaining = Math.floor(remaining / 256)) {
+    header[i] = remaining % 256;
+  }
+};
+
+const readSize = (header: Uint8Array): number => {
+  if (header[124] & 0x80) {
+    let size = 0;
+    for (let i = 125; i < 136; i++) size = size * 256 + header[i];
+    return size;
+  }
+  return parseInt(decoder.decode(header.subarray(124, 136)).replace(/\0.*$/, '').trim() || '0', 8);
+};
+
+const readString = (header: Uint8Array, offset: number, length: number): string => {
+  const bytes = header.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+/** The 512-byte header for a regular file entry. */
+export const createTarHeader = (name: string, size: number, modified = Date.now()): Uint8Array => {
+  const header = new Uint8Array(BLOCK_SIZE);
+  writeString(header, 0, 100, name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeSize(header, size);
+  writeOctal(header, 136, 12, Math.floor(modified / 1000));
+  header[156] = '0'.charCodeAt(0);
+  writeString(header, 257, 8, 'ustar\u000000');
+
+  // The checksum is computed with its own field filled with spaces.
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((total, byte) => total + byte, 0);
+  writeString(header, 148, 8, checksum.toString(8).padStart(6, '0') + '\0 ');
+  return header;
+};
+
+/** Zero bytes that round an entry of `size` bytes up to a whole block. */
+export const tarPadding = (size: number): Uint8Array => new Uint8Array((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+
+// Two empty blocks mark the end of the archive.
+export const TAR_END = new Uint8Array(BLOCK_SIZE * 2);
+
+/**
+ * Lists the regular files in an archive by hopping from header to header, so only the
+ * headers are ever read. Throws if the file doesn't look like a tar archive.
+ */
+export const readTarEntries = async (archive: Blob): Promise<TarEntry[]> => {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= archive.size) {
+    const header = new Uint8Array(await archive.slice(offset, offset + BLOCK_SIZE).arrayBuffer());
+    if (header.every(byte => byte === 0)) break;
+
+    const stored = parseInt(readString(header, 148, 8).trim(), 8);
+    header.fill(0x20, 148, 156);
+    if (header.reduce((total, byte) => total + byte, 0) !== stored) {
+      throw new Error(`Corrupted archive header at byte ${offset}`);
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = (prefix ? `${prefix}/` : '') + readString(header, 0, 100);
+    const size = readSize(header);
+    const type = String.fromCharCode(header[156]);
+    if (type === '0' || type === '\0') {
+      entries.push({ name, start: offset + BLOCK_SIZE, size });
+    }
+    offset += BLOCK_SIZE + size + tarPadding(size).length;
+  }
+  return entries;
+};
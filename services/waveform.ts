@@ -0,0 +1,55 @@
+import { yieldToBrowser } from './scheduling';
+
+// A waveform is a fixed number of peak levels across the whole track, one byte each,
+// so it costs a few hundred bytes per track to keep. Seek bars scale it to their width.
+export const WAVEFORM_BUCKETS = 512;
+
+// Decoding at a low rate keeps memory down; the outline of the peaks survives it fine.
+const WAVEFORM_SAMPLE_RATE = 8000;
+const MAX_WAVEFORM_SECONDS = 2 * 60 * 60;
+// How many samples to scan before giving the UI thread a turn.
+const SAMPLES_PER_SLICE = 1 << 18;
+
+const tooLongError = (seconds: number) => new Error(`Too long for a waveform (${Math.round(seconds / 60)} minutes)`);
+
+/**
+ * Decodes a file and returns its peak level per bucket, scaled to 0-255. Decoding
+ * happens off the main thread and the scan runs in slices, so long files don't
+ * freeze the page. A known `duration` turns overlong files away before decoding them.
+ */
+export const computeWaveform = async (file: Blob, duration?: number): Promise<Uint8Array> => {
+  if (duration !== undefined && duration > MAX_WAVEFORM_SECONDS) throw tooLongError(duration);
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  if (buffer.duration > MAX_WAVEFORM_SECONDS) throw tooLongError(buffer.duration);
+
+  const peaks = new Float32Array(WAVEFORM_BUCKETS);
+  const samplesPerBucket = buffer.length / WAVEFORM_BUCKETS;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let start = 0; start < samples.length; start += SAMPLES_PER_SLICE) {
+      const end = Math.min(start + SAMPLES_PER_SLICE, samples.length);
+      for (let i = start; i < end; i++) {
+        const bucket = Math.min(WAVEFORM_BUCKETS - 1, Math.floor(i / samplesPerBucket));
+        const level = Math.abs(samples[i]);
+        if (level > peaks[bucket]) peaks[bucket] = level;
+      }
+      await yieldToBrowser();
+    }
+  }
+
+  return Uint8Array.from(peaks, peak => Math.round(Math.min(1, peak) * 255));
+};
+
+/** Reduces stored peaks to `count` bars, each the loudest bucket it covers, from 0 to 1. */
+export const resampleWaveform = (peaks: Uint8Array, count: number): number[] => {
+  const bars: number[] = [];
+  for (let bar = 0; bar < count; bar++) {
+    const start = Math.floor(bar * peaks.length / count);
+    const end = Math.max(start + 1, Math.floor((bar + 1) * peaks.length / count));
+    let peak = 0;
+    for (let i = start; i < end && i < peaks.length; i++) peak = Math.max(peak, peaks[i]);
+    bars.push(peak / 255);
+  }
+  return bars;
+};
@@ -1,8 +1,124 @@
+import type { LibrarySort } from './services/search';
 
 export interface Track {
   id: number;
   name: string;
   file: Blob;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
+  // Free-form notes, edited in the track editor.
+  comment?: string;
+  dateAdded: number;
+  // SHA-256 of `file`, for recognizing the same file imported twice. Missing on tracks
+  // imported before it was recorded until something needs it.
+  contentHash?: string;
+  // Seconds. Probed at import, or filled in when the track first loads for older tracks.
+  duration?: number;
+  // Technical stream info probed from the file: codec name (e.g. "MP3", "FLAC"), average
+  // bitrate in kbps, sample rate in Hz, and bit depth for lossless formats.
+  codec?: string;
+  bitrate?: number;
+  sampleRate?: number;
+  channels?: number;
+  bitDepth?: number;
+  // Set once the stream info has been probed, so files whose format can't be identified
+  // aren't probed again on every load.
+  streamInfoProbed?: boolean;
+  // Maintained from the listening history: see services/history.ts for what counts as a play or a skip.
+  playCount?: number;
+  skipCount?: number;
+  lastPlayed?: number;
+  // The user's own rating, 1 to 5 stars. Unrated tracks leave it out.
+  rating?: number;
+  // Lyrics the user attached (LRC or plain text). These always come from the "local" provider.
+  lyrics?: string;
+  // The last result from a provider that costs a network call, so it isn't fetched again.
+  lyricsCache?: CachedLyrics;
+  // Stored downscaled; see services/artwork.ts. The thumbnail is a small copy for list rows and
+  // the player bar, and is missing only briefly for covers saved before thumbnails existed.
   coverArt?: Blob;
+  coverThumbnail?: Blob;
   video?: Blob;
+  // Overrides the global equalizer with this preset while the track plays.
+  eqPresetId?: string;
+  // ReplayGain 2.0 values: gains in dB towards -18 LUFS, peaks as linear sample peaks (1 = full scale).
+  trackGain?: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+  // Gains read from the file's own tags are kept as they are and never re-analysed.
+  replayGainSource?: 'tags' | 'analysis';
 }
+
+// One entry in the listening history.
+export interface PlayEvent {
+  id: number;
+  trackId: number;
+  // When the listen started.
+  playedAt: number;
+  // Seconds actually heard; seeking past parts of the track doesn't count them.
+  listenedSeconds: number;
+  kind: 'play' | 'skip';
+}
+
+export interface CachedLyrics {
+  providerId: string;
+  text: string;
+  fetchedAt: number;
+}
+
+export interface Playlist {
+  id: number;
+  name: string;
+  // Always empty for smart playlists, whose songs are worked out from `smart` instead.
+  trackIds: number[];
+  dateCreated: number;
+  smart?: SmartPlaylistDefinition;
+}
+
+export type SmartRuleField =
+  | 'title' | 'artist' | 'album' | 'genre'
+  | 'year' | 'playCount' | 'skipCount' | 'rating' | 'duration'
+  | 'dateAdded' | 'lastPlayed'
+  | 'hasVideo' | 'hasCover' | 'hasLyrics';
+
+export type SmartRuleOperator =
+  | 'contains' | 'notContains' | 'is' | 'isNot'
+  | 'greaterThan' | 'lessThan' | 'atLeast' | 'atMost'
+  | 'inLast' | 'notInLast' | 'never'
+  | 'isTrue' | 'isFalse';
+
+// One condition of a smart playlist. Durations are in seconds and date ranges in days;
+// the operator decides whether `value` is used at all.
+export interface SmartRule {
+  field: SmartRuleField;
+  operator: SmartRuleOperator;
+  value: string | number;
+}
+
+export interface SmartPlaylistDefinition {
+  // Whether a track has to match every rule or just one of them.
+  match: 'all' | 'any';
+  rules: SmartRule[];
+  sort: LibrarySort;
+  // Keeps only the first `limit` tracks after sorting.
+  limit?: number;
+}
+
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+export interface PlaybackSettings {
+  // 0 means gapless: tracks run straight into each other without a fade.
+  crossfadeSeconds: number;
+  normalization: NormalizationMode;
+}
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  crossfadeSeconds: 0,
+  normalization: 'track',
+};